@@ -0,0 +1,80 @@
+import { type CancellationToken } from "../common/cancellation-token";
+import { type ShiftDirection } from "../common/shift-direction";
+import { type IGameBoard } from "../models/game-board";
+import { type GameAgentRecommendation, type IGameAgent } from "./game-agent";
+
+export type AsyncGameAgentOptions = {
+  /** Cancels the analysis; the returned promise then rejects with a `CancellationError`. */
+  cancellationToken?: CancellationToken;
+  /** Called while the analysis runs, with the completed share between `0` and `1`. */
+  onProgress?: (progress: number) => void;
+};
+
+/**
+ * The Promise-based variant of `IGameAgent`, for agents whose analysis
+ * runs outside of the calling thread and can be cancelled.
+ */
+export interface IAsyncGameAgent {
+  /**
+   * Analyzes the provided game board and recommends the next move.
+   *
+   * @param {IGameBoard} board - The current state of the game board to evaluate.
+   * @param {AsyncGameAgentOptions} [options] - Cancellation and progress reporting.
+   * @returns {Promise<ShiftDirection|null>} The recommended shift direction,
+   * or `null` if no valid move can be determined.
+   */
+  recommendNextMove(
+    board: IGameBoard,
+    options?: AsyncGameAgentOptions
+  ): Promise<ShiftDirection | null>;
+
+  /**
+   * Analyzes the provided game board and recommends the next move,
+   * together with the agent's evaluation of it.
+   *
+   * @param {IGameBoard} board - The current state of the game board to evaluate.
+   * @param {AsyncGameAgentOptions} [options] - Cancellation and progress reporting.
+   * @returns {Promise<GameAgentRecommendation|null>} The recommended move and its
+   * evaluation, or `null` if no valid move can be determined.
+   */
+  analyzeNextMove(
+    board: IGameBoard,
+    options?: AsyncGameAgentOptions
+  ): Promise<GameAgentRecommendation | null>;
+}
+
+/**
+ * Exposes a synchronous `IGameAgent` through the `IAsyncGameAgent` interface.
+ * The analysis still runs on the calling thread, so cancellation only takes
+ * effect before the analysis starts or after it ends.
+ */
+export class AsyncGameAgentAdapter implements IAsyncGameAgent {
+  #agent: IGameAgent;
+
+  constructor(agent: IGameAgent) {
+    this.#agent = agent;
+  }
+
+  async recommendNextMove(
+    board: IGameBoard,
+    options?: AsyncGameAgentOptions
+  ): Promise<ShiftDirection | null> {
+    return (await this.analyzeNextMove(board, options))?.direction ?? null;
+  }
+
+  async analyzeNextMove(
+    board: IGameBoard,
+    options?: AsyncGameAgentOptions
+  ): Promise<GameAgentRecommendation | null> {
+    options?.cancellationToken?.throwIfCancelled();
+
+    const recommendation = this.#agent.analyzeNextMove(
+      board,
+      options?.onProgress
+    );
+
+    options?.cancellationToken?.throwIfCancelled();
+
+    return recommendation;
+  }
+}
@@ -0,0 +1,212 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { ShiftDirection } from "../common/shift-direction";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { GameBoard } from "../models/game-board";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import { Bitboard } from "./bitboard";
+import { GameBoardSearchBoard } from "./search-board";
+
+const randomSource = new SeededRandomSource(1);
+const pieceFactory = new DefaultGamePieceFactory(randomSource);
+
+function createBoard(values: number[][]) {
+  return GameBoard.deserialize(
+    { rowCount: values.length, columnCount: values[0].length, values },
+    pieceFactory,
+    randomSource
+  );
+}
+
+function getValues(board: Bitboard) {
+  return board.toGameBoard(pieceFactory, randomSource).serialize().values;
+}
+
+const valueArbitrary = fc.oneof(
+  { weight: 1, arbitrary: fc.constant(0) },
+  { weight: 2, arbitrary: fc.integer({ min: 1, max: 11 }).map((e) => 2 ** e) }
+);
+
+const gridArbitrary = fc.array(
+  fc.array(valueArbitrary, { minLength: 4, maxLength: 4 }),
+  { minLength: 4, maxLength: 4 }
+);
+
+const directionArbitrary = fc.constantFrom(
+  ShiftDirection.Down,
+  ShiftDirection.Left,
+  ShiftDirection.Right,
+  ShiftDirection.Up
+);
+
+describe("Bitboard", () => {
+  describe("isSupported", () => {
+    it("accepts 4x4 boards of powers of two", () => {
+      expect(
+        Bitboard.isSupported(
+          createBoard([
+            [2, 0, 0, 0],
+            [0, 4, 0, 0],
+            [0, 0, 1024, 0],
+            [0, 0, 0, 32768],
+          ])
+        )
+      ).toBe(true);
+    });
+
+    it("rejects boards of other sizes", () => {
+      expect(
+        Bitboard.isSupported(
+          createBoard([
+            [2, 4, 8],
+            [0, 0, 0],
+            [0, 0, 0],
+          ])
+        )
+      ).toBe(false);
+    });
+
+    it("rejects boards with blocked cells", () => {
+      expect(
+        Bitboard.isSupported(
+          createBoard([
+            [2, 4, 8, 16],
+            [0, -1, 0, 0],
+            [0, 0, 0, 0],
+            [0, 0, 0, 0],
+          ])
+        )
+      ).toBe(false);
+    });
+
+    it("rejects boards with other merge rules", () => {
+      const board = GameBoard.deserialize(
+        {
+          rowCount: 4,
+          columnCount: 4,
+          values: [
+            [3, 9, 27, 81],
+            [0, 0, 0, 0],
+            [0, 0, 0, 0],
+            [0, 0, 0, 0],
+          ],
+          mergeRule: "powers-of-three",
+        },
+        pieceFactory,
+        randomSource
+      );
+
+      expect(Bitboard.isSupported(board)).toBe(false);
+    });
+
+    it("rejects values that do not fit into a cell", () => {
+      expect(
+        Bitboard.isSupported(
+          createBoard([
+            [65536, 0, 0, 0],
+            [0, 0, 0, 0],
+            [0, 0, 0, 0],
+            [0, 0, 0, 0],
+          ])
+        )
+      ).toBe(false);
+      expect(
+        Bitboard.isSupported(
+          createBoard([
+            [3, 0, 0, 0],
+            [0, 0, 0, 0],
+            [0, 0, 0, 0],
+            [0, 0, 0, 0],
+          ])
+        )
+      ).toBe(false);
+    });
+  });
+
+  it("converts to and from GameBoard without loss", () => {
+    fc.assert(
+      fc.property(gridArbitrary, (values) => {
+        expect(getValues(Bitboard.fromGameBoard(createBoard(values)))).toEqual(
+          values
+        );
+      })
+    );
+  });
+
+  describe("shift", () => {
+    it("agrees with GameBoard.shift", () => {
+      fc.assert(
+        fc.property(gridArbitrary, directionArbitrary, (values, direction) => {
+          const board = createBoard(values);
+          const bitboard = Bitboard.fromGameBoard(board);
+          const shifted = bitboard.shift(direction);
+          const { hasMoved, scoreGained } = board.shift(direction);
+
+          expect(shifted !== null).toBe(hasMoved);
+          expect(bitboard.getShiftScore(direction)).toBe(scoreGained);
+
+          if (shifted) {
+            expect(getValues(shifted)).toEqual(board.serialize().values);
+          }
+        })
+      );
+    });
+
+    it("does not merge pieces of the highest value", () => {
+      const board = Bitboard.fromGameBoard(
+        createBoard([
+          [32768, 32768, 0, 0],
+          [0, 0, 0, 0],
+          [0, 0, 0, 0],
+          [0, 0, 0, 0],
+        ])
+      );
+
+      expect(board.shift(ShiftDirection.Left)).toBeNull();
+    });
+  });
+
+  describe("placeInEachEmptyCell", () => {
+    it("places the value in every empty cell once", () => {
+      const board = Bitboard.fromGameBoard(
+        createBoard([
+          [2, 0, 4, 8],
+          [16, 32, 64, 128],
+          [256, 512, 0, 1024],
+          [2, 4, 8, 16],
+        ])
+      );
+
+      expect(board.placeInEachEmptyCell(4).map(getValues)).toEqual([
+        [
+          [2, 4, 4, 8],
+          [16, 32, 64, 128],
+          [256, 512, 0, 1024],
+          [2, 4, 8, 16],
+        ],
+        [
+          [2, 0, 4, 8],
+          [16, 32, 64, 128],
+          [256, 512, 4, 1024],
+          [2, 4, 8, 16],
+        ],
+      ]);
+    });
+  });
+
+  it("agrees with GameBoardSearchBoard on the board queries", () => {
+    fc.assert(
+      fc.property(gridArbitrary, (values) => {
+        const board = createBoard(values);
+        const bitboard = Bitboard.fromGameBoard(board);
+        const searchBoard = new GameBoardSearchBoard(board, pieceFactory);
+
+        expect(bitboard.getMaxValue()).toBe(searchBoard.getMaxValue());
+        expect(bitboard.hasValidMoves()).toBe(searchBoard.hasValidMoves());
+        expect(bitboard.getHeuristicFeatures()).toEqual(
+          searchBoard.getHeuristicFeatures()
+        );
+      })
+    );
+  });
+});
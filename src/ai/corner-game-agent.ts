@@ -0,0 +1,82 @@
+import { ShiftDirection } from "../common/shift-direction";
+import { type GridCoordinate, type IGameBoard } from "../models/game-board";
+import {
+  type GameAgentMoveEvaluation,
+  type GameAgentRecommendation,
+  type IGameAgent,
+} from "./game-agent";
+
+/**
+ * Plays the classic corner strategy: the highest piece is kept in the
+ * bottom-left corner by preferring to move down, then left, then right,
+ * and moving up only when nothing else is possible.
+ *
+ * A move is only preferred if it keeps the highest piece in the corner;
+ * if none does, the first possible move in the order of preference is
+ * taken. The evaluation is `1` for moves that keep the corner, `0` otherwise.
+ */
+export class CornerGameAgent implements IGameAgent {
+  #preferredDirections = [
+    ShiftDirection.Down,
+    ShiftDirection.Left,
+    ShiftDirection.Right,
+    ShiftDirection.Up,
+  ];
+
+  recommendNextMove(board: IGameBoard): ShiftDirection | null {
+    return this.analyzeNextMove(board)?.direction ?? null;
+  }
+
+  analyzeNextMove(
+    board: IGameBoard,
+    onProgress?: (progress: number) => void
+  ): GameAgentRecommendation | null {
+    const moveEvaluations: GameAgentMoveEvaluation[] = [];
+
+    for (const [index, direction] of this.#preferredDirections.entries()) {
+      const boardClone = board.clone();
+      const { hasMoved } = boardClone.shift(direction);
+
+      onProgress?.(index / this.#preferredDirections.length);
+
+      if (!hasMoved) continue;
+
+      moveEvaluations.push({
+        direction,
+        evaluation: this.#isHighestPieceInCorner(boardClone) ? 1 : 0,
+      });
+    }
+
+    onProgress?.(1);
+
+    // The moves are in the order of preference, so the first one with the
+    // highest evaluation is the preferred one.
+    const best =
+      moveEvaluations.find(({ evaluation }) => evaluation === 1) ??
+      moveEvaluations[0];
+
+    return best ? { ...best, moveEvaluations } : null;
+  }
+
+  /**
+   * On boards with blocked cells, the corner is the lowest corner cell,
+   * and the leftmost one among those.
+   */
+  #isHighestPieceInCorner(board: IGameBoard): boolean {
+    const corner = board
+      .getCornerCoordinates()
+      .reduce<GridCoordinate | null>(
+        (lowestCorner, coordinate) =>
+          !lowestCorner || coordinate.rowIndex > lowestCorner.rowIndex
+            ? coordinate
+            : lowestCorner,
+        null
+      );
+    const cornerPiece = corner && board.getGamePieceByCoordinate(corner);
+
+    return (
+      !!cornerPiece &&
+      cornerPiece.value === board.findMaxValueGamePiece()?.value
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { ShiftDirection } from "../common/shift-direction";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { GameBoard } from "../models/game-board";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import {
+  type GameAgentFactoryContext,
+  gameAgentRegistry,
+  GameAgentRegistry,
+} from "./game-agent-registry";
+import { defaultNTuples, NTupleNetwork } from "./n-tuple-network";
+
+const randomSource = new SeededRandomSource(1);
+const pieceFactory = new DefaultGamePieceFactory(randomSource);
+
+function createBoard(values: number[][]) {
+  return GameBoard.deserialize(
+    { rowCount: values.length, columnCount: values[0].length, values },
+    pieceFactory,
+    randomSource
+  );
+}
+
+const context: GameAgentFactoryContext = {
+  options: {
+    expectimax: { searchDepth: 1, targetValue: 2048 },
+    monteCarlo: { rolloutCount: 4, rolloutLength: 10 },
+    nTupleWeightsUrl: "n-tuple-weights.json",
+    seed: 1,
+  },
+  loadJson: async () => new NTupleNetwork(defaultNTuples).serialize(),
+};
+
+describe("gameAgentRegistry", () => {
+  const ids = gameAgentRegistry.getAll().map(({ id }) => id);
+
+  it.each(ids)(
+    "creates a %s agent that evaluates the valid moves",
+    async (id) => {
+      const agent = await gameAgentRegistry.get(id).create(context);
+      const board = createBoard([
+        [2, 4, 8, 16],
+        [0, 0, 0, 0],
+        [4, 8, 16, 32],
+        [8, 16, 32, 64],
+      ]);
+
+      const recommendation = agent.analyzeNextMove(board);
+
+      expect([ShiftDirection.Down, ShiftDirection.Up]).toContain(
+        recommendation?.direction
+      );
+      expect(
+        recommendation?.moveEvaluations.map(({ direction }) => direction)
+      ).toEqual([ShiftDirection.Down, ShiftDirection.Up]);
+    }
+  );
+
+  it.each(ids)(
+    "creates a %s agent that recommends nothing on a locked board",
+    async (id) => {
+      const agent = await gameAgentRegistry.get(id).create(context);
+      const board = createBoard([
+        [2, 4, 2, 4],
+        [4, 2, 4, 2],
+        [2, 4, 2, 4],
+        [4, 2, 4, 2],
+      ]);
+
+      expect(agent.recommendNextMove(board)).toBeNull();
+    }
+  );
+});
+
+describe("the n-tuple agent", () => {
+  it("fails to be created when its network cannot be loaded", async () => {
+    await expect(
+      gameAgentRegistry.get("n-tuple").create({
+        ...context,
+        loadJson: async (url) => {
+          throw new Error(`Could not load ${url}: 404.`);
+        },
+      })
+    ).rejects.toThrow("Could not load n-tuple-weights.json: 404.");
+  });
+});
+
+describe("GameAgentRegistry", () => {
+  it("throws for an unknown agent", () => {
+    expect(() => new GameAgentRegistry().get("unknown")).toThrow();
+  });
+
+  it("throws when an agent is registered twice", () => {
+    const registry = new GameAgentRegistry();
+    const registration = gameAgentRegistry.get("random");
+
+    registry.register(registration);
+
+    expect(() => registry.register(registration)).toThrow();
+  });
+});
@@ -0,0 +1,163 @@
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { type SpawnPolicy } from "../models/spawn-policy";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import { CornerGameAgent } from "./corner-game-agent";
+import { GameAgent, type GameAgentConfig, type IGameAgent } from "./game-agent";
+import { GreedyGameAgent } from "./greedy-game-agent";
+import { MonteCarloGameAgent } from "./monte-carlo-game-agent";
+import { NTupleGameAgent } from "./n-tuple-game-agent";
+import { NTupleNetwork } from "./n-tuple-network";
+import { RandomGameAgent } from "./random-game-agent";
+
+/**
+ * The settings of all registered agents. They are plain data, so that
+ * they can be sent to a worker along with the id of the agent to create.
+ */
+export type GameAgentOptions = {
+  expectimax: GameAgentConfig;
+  monteCarlo: {
+    rolloutCount: number;
+    rolloutLength: number;
+  };
+  /** Where the n-tuple agent loads its network from. */
+  nTupleWeightsUrl: string;
+  /** Seeds the agents that make random choices. */
+  seed: number;
+  /** The rules the agents expect new pieces to follow. Defaults to `defaultSpawnPolicy`. */
+  spawnPolicy?: SpawnPolicy;
+};
+
+/**
+ * What an agent factory receives to create its agent.
+ */
+export type GameAgentFactoryContext = {
+  options: GameAgentOptions;
+  /**
+   * Loads a JSON document, e.g. with `fetch` in a browser or from the
+   * file system in Node.
+   */
+  loadJson: (url: string) => Promise<unknown>;
+};
+
+/**
+ * Describes an agent that can be chosen by id, e.g. in the agent selector
+ * or on the command line.
+ */
+export type GameAgentRegistration = {
+  id: string;
+  name: string;
+  description: string;
+  create(context: GameAgentFactoryContext): Promise<IGameAgent>;
+};
+
+/**
+ * An agent that can switch between the registered agents.
+ */
+export interface ISelectableGameAgent {
+  getAgentId(): string;
+  setAgentId(agentId: string): void;
+}
+
+/**
+ * Keeps the available agents by id, in the order they were registered.
+ */
+export class GameAgentRegistry {
+  #registrations = new Map<string, GameAgentRegistration>();
+
+  /**
+   * @param {GameAgentRegistration} registration - The agent to add.
+   * @throws {Error} If an agent with the same id is already registered.
+   */
+  register(registration: GameAgentRegistration) {
+    if (this.#registrations.has(registration.id)) {
+      throw new Error(`Game agent "${registration.id}" is already registered.`);
+    }
+
+    this.#registrations.set(registration.id, registration);
+  }
+
+  /**
+   * @param {string} id - The id of the agent.
+   * @returns {GameAgentRegistration} The registered agent.
+   * @throws {Error} If no agent with the id is registered.
+   */
+  get(id: string): GameAgentRegistration {
+    const registration = this.#registrations.get(id);
+
+    if (!registration) {
+      throw new Error(`Unknown game agent "${id}".`);
+    }
+
+    return registration;
+  }
+
+  getAll(): GameAgentRegistration[] {
+    return [...this.#registrations.values()];
+  }
+}
+
+function createPieceFactory({ seed, spawnPolicy }: GameAgentOptions) {
+  return new DefaultGamePieceFactory(new SeededRandomSource(seed), spawnPolicy);
+}
+
+export const defaultGameAgentId = "expectimax";
+
+export const gameAgentRegistry = new GameAgentRegistry();
+
+gameAgentRegistry.register({
+  id: defaultGameAgentId,
+  name: "Expectimax",
+  description:
+    "Searches the possible moves and spawns several plies ahead, weighing spawns by their probability.",
+  create: async ({ options }) =>
+    new GameAgent(createPieceFactory(options), options.expectimax),
+});
+
+gameAgentRegistry.register({
+  id: "random",
+  name: "Random",
+  description: "Picks any move that changes the board.",
+  create: async ({ options }) =>
+    new RandomGameAgent(
+      createPieceFactory(options),
+      new SeededRandomSource(options.seed)
+    ),
+});
+
+gameAgentRegistry.register({
+  id: "greedy",
+  name: "Greedy",
+  description: "Takes the move that scores the most right away.",
+  create: async () => new GreedyGameAgent(),
+});
+
+gameAgentRegistry.register({
+  id: "corner",
+  name: "Corner",
+  description: "Keeps the highest piece in the bottom-left corner.",
+  create: async () => new CornerGameAgent(),
+});
+
+gameAgentRegistry.register({
+  id: "monte-carlo",
+  name: "Monte Carlo",
+  description:
+    "Plays random games out after every move and takes the move whose games last longest.",
+  create: async ({ options }) =>
+    new MonteCarloGameAgent(
+      createPieceFactory(options),
+      new SeededRandomSource(options.seed),
+      options.monteCarlo
+    ),
+});
+
+gameAgentRegistry.register({
+  id: "n-tuple",
+  name: "N-tuple network",
+  description:
+    "Values positions with an n-tuple network trained by temporal difference learning. 4x4 boards only.",
+  create: async ({ options, loadJson }) =>
+    new NTupleGameAgent(
+      NTupleNetwork.deserialize(await loadJson(options.nTupleWeightsUrl))
+    ),
+});
@@ -0,0 +1,140 @@
+import { bench, describe } from "vitest";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { GameBoard, type IGameBoard } from "../models/game-board";
+import { GameEngine } from "../engine/game-engine";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import { Bitboard } from "./bitboard";
+import { GameAgent } from "./game-agent";
+import { GameBoardSearchBoard } from "./search-board";
+
+const randomSource = new SeededRandomSource(1);
+const pieceFactory = new DefaultGamePieceFactory(randomSource);
+
+const board = GameBoard.deserialize(
+  {
+    rowCount: 4,
+    columnCount: 4,
+    values: [
+      [0, 0, 2, 0],
+      [4, 0, 0, 2],
+      [16, 8, 4, 0],
+      [128, 64, 16, 8],
+    ],
+  },
+  pieceFactory,
+  randomSource
+);
+
+/**
+ * Collects positions from a seeded game, so that search settings can be
+ * compared on more than a single board.
+ */
+function collectPositions(count: number, movesBetween: number): IGameBoard[] {
+  const engine = new GameEngine(
+    new GameBoard(Bitboard.size, randomSource),
+    pieceFactory,
+    randomSource,
+    { gameWinValue: 2048, startingPieceCount: 2, historyLimit: 0 }
+  );
+  const agent = new GameAgent(pieceFactory, {
+    searchDepth: 2,
+    targetValue: 2048,
+  });
+  const positions: IGameBoard[] = [];
+
+  engine.start();
+
+  for (let move = 1; positions.length < count; move += 1) {
+    const direction = agent.recommendNextMove(engine.getBoard());
+    if (direction === null) break;
+
+    engine.move(direction);
+
+    if (move % movesBetween === 0) {
+      positions.push(engine.getBoard().clone());
+    }
+  }
+
+  return positions;
+}
+
+for (const searchDepth of [2, 4]) {
+  const agent = new GameAgent(pieceFactory, { searchDepth, targetValue: 2048 });
+  const nodes = agent.analyzeNextMove(board)?.statistics?.nodesVisited;
+
+  describe(`expectimax search, depth ${searchDepth} (${nodes} nodes)`, () => {
+    bench("GameBoardSearchBoard", () => {
+      agent.analyzeSearchBoard(new GameBoardSearchBoard(board, pieceFactory));
+    });
+
+    bench("Bitboard", () => {
+      agent.analyzeSearchBoard(Bitboard.fromGameBoard(board));
+    });
+  });
+}
+
+const positions = collectPositions(10, 25);
+const exhaustiveSettings = {
+  probabilityThreshold: 0,
+  useTranspositionTable: false,
+};
+const searchSettings = {
+  exhaustive: exhaustiveSettings,
+  "transposition table": {
+    ...exhaustiveSettings,
+    useTranspositionTable: true,
+  },
+  "probability cutoff": {
+    ...exhaustiveSettings,
+    probabilityThreshold: 0.0001,
+  },
+  "transposition table and probability cutoff": {},
+  "iterative deepening, 10 ms": { timeBudget: 10 },
+};
+
+// Every setting is benchmarked over the same positions. Its name reports
+// the mean nodes visited and depth reached, and how often it agrees with
+// the exhaustive search, which serves as the measure of its quality.
+describe(`search settings, depth 6 (${positions.length} positions)`, () => {
+  const exhaustiveAgent = new GameAgent(pieceFactory, {
+    searchDepth: 6,
+    targetValue: 2048,
+    ...exhaustiveSettings,
+  });
+  const exhaustiveDirections = positions.map((position) =>
+    exhaustiveAgent.recommendNextMove(position)
+  );
+
+  for (const [name, settings] of Object.entries(searchSettings)) {
+    const agent = new GameAgent(pieceFactory, {
+      searchDepth: 6,
+      targetValue: 2048,
+      ...settings,
+    });
+    const recommendations = positions.map((position) =>
+      agent.analyzeNextMove(position)
+    );
+    const agreement =
+      recommendations.filter(
+        (recommendation, index) =>
+          recommendation?.direction === exhaustiveDirections[index]
+      ).length / positions.length;
+    const mean = (key: "nodesVisited" | "depth") =>
+      recommendations.reduce(
+        (sum, recommendation) => sum + (recommendation?.statistics?.[key] ?? 0),
+        0
+      ) / positions.length;
+
+    bench(
+      `${name} (${Math.round(mean("nodesVisited"))} nodes, ` +
+        `depth ${mean("depth").toFixed(1)}, ` +
+        `${(agreement * 100).toFixed(0)}% agreement)`,
+      () => {
+        for (const position of positions) {
+          agent.analyzeNextMove(position);
+        }
+      },
+      { iterations: 3 }
+    );
+  }
+});
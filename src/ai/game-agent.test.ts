@@ -0,0 +1,248 @@
+import { describe, expect, it } from "vitest";
+import { ShiftDirection } from "../common/shift-direction";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { GameBoard } from "../models/game-board";
+import { defaultSpawnPolicy } from "../models/spawn-policy";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import { GameAgent } from "./game-agent";
+
+const randomSource = new SeededRandomSource(1);
+const pieceFactory = new DefaultGamePieceFactory(randomSource);
+
+function createBoard(values: number[][]) {
+  return GameBoard.deserialize(
+    { rowCount: values.length, columnCount: values[0].length, values },
+    pieceFactory,
+    randomSource
+  );
+}
+
+function createAgent(searchDepth = 2) {
+  return new GameAgent(pieceFactory, { searchDepth, targetValue: 2048 });
+}
+
+describe("GameAgent", () => {
+  describe("recommendNextMove", () => {
+    it("returns null when no move is possible", () => {
+      const board = createBoard([
+        [2, 4, 2, 4],
+        [4, 2, 4, 2],
+        [2, 4, 2, 4],
+        [4, 2, 4, 2],
+      ]);
+
+      expect(createAgent().recommendNextMove(board)).toBeNull();
+    });
+
+    it("returns the only possible move", () => {
+      const board = createBoard([
+        [0, 2],
+        [0, 4],
+      ]);
+
+      expect(createAgent().recommendNextMove(board)).toBe(ShiftDirection.Left);
+    });
+
+    it("merges into the target value when it can", () => {
+      const board = createBoard([
+        [1024, 1024, 0, 0],
+        [2, 4, 0, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ]);
+
+      expect([ShiftDirection.Left, ShiftDirection.Right]).toContain(
+        createAgent().recommendNextMove(board)
+      );
+    });
+
+    it("recommends the same move for the same board", () => {
+      const values = [
+        [2, 4, 8, 0],
+        [0, 2, 0, 0],
+        [0, 0, 4, 0],
+        [2, 0, 0, 16],
+      ];
+
+      expect(createAgent().recommendNextMove(createBoard(values))).toBe(
+        createAgent().recommendNextMove(createBoard(values))
+      );
+    });
+
+    it("does not modify the provided board", () => {
+      const values = [
+        [2, 2, 4, 0],
+        [0, 4, 0, 8],
+        [0, 0, 0, 0],
+        [16, 0, 0, 2],
+      ];
+      const board = createBoard(values);
+
+      createAgent().recommendNextMove(board);
+
+      expect(board.serialize().values).toEqual(values);
+    });
+  });
+
+  describe("weights", () => {
+    it("evaluates positions with the weights from the config", () => {
+      const board = createBoard([
+        [2, 0, 0, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ]);
+      const agent = new GameAgent(pieceFactory, {
+        searchDepth: 0,
+        targetValue: 2048,
+        weights: {
+          emptyCoordinates: 1,
+          smoothness: 0,
+          monotonicity: 0,
+          cornerBonus: 0,
+          highestValue: 0,
+        },
+      });
+
+      expect(agent.analyzeNextMove(board)?.evaluation).toBe(15);
+    });
+
+    it("applies changed weights to the next analysis", () => {
+      const agent = createAgent(0);
+      const weights = { ...agent.getWeights(), highestValue: 0 };
+
+      agent.setWeights(weights);
+
+      expect(agent.getWeights()).toEqual(weights);
+    });
+  });
+
+  describe("analyzeNextMove", () => {
+    const values = [
+      [2, 0, 4, 0],
+      [0, 8, 0, 2],
+      [4, 0, 16, 0],
+      [32, 2, 0, 4],
+    ];
+
+    it("reports the depth of the deepest search iteration", () => {
+      const recommendation = createAgent(3).analyzeNextMove(
+        createBoard(values)
+      );
+
+      expect(recommendation?.statistics?.depth).toBe(3);
+    });
+
+    it("completes the first iteration regardless of the time budget", () => {
+      const agent = new GameAgent(pieceFactory, {
+        searchDepth: 6,
+        targetValue: 2048,
+        timeBudget: 0,
+      });
+
+      expect(
+        agent.analyzeNextMove(createBoard(values))?.statistics?.depth
+      ).toBe(0);
+    });
+
+    it("recommends the same move with and without the transposition table", () => {
+      const createAgentWithTable = (useTranspositionTable: boolean) =>
+        new GameAgent(pieceFactory, {
+          searchDepth: 4,
+          targetValue: 2048,
+          probabilityThreshold: 0,
+          useTranspositionTable,
+        });
+      const withTable = createAgentWithTable(true).analyzeNextMove(
+        createBoard(values)
+      );
+      const withoutTable = createAgentWithTable(false).analyzeNextMove(
+        createBoard(values)
+      );
+
+      expect(withTable?.direction).toBe(withoutTable?.direction);
+      expect(withTable?.statistics?.cacheHits).toBeGreaterThan(0);
+      expect(withTable?.statistics?.nodesVisited).toBeLessThan(
+        withoutTable?.statistics?.nodesVisited ?? 0
+      );
+    });
+
+    it("explores fewer positions with a higher probability threshold", () => {
+      const createAgentWithThreshold = (probabilityThreshold: number) =>
+        new GameAgent(pieceFactory, {
+          searchDepth: 4,
+          targetValue: 2048,
+          probabilityThreshold,
+          useTranspositionTable: false,
+        });
+      const nodesVisited = (probabilityThreshold: number) =>
+        createAgentWithThreshold(probabilityThreshold).analyzeNextMove(
+          createBoard(values)
+        )?.statistics?.nodesVisited;
+
+      expect(nodesVisited(0.05)).toBeLessThan(nodesVisited(0) ?? 0);
+    });
+
+    it("expects the worst spawns under an evil spawn policy", () => {
+      const evaluations = (mode: "random" | "evil") =>
+        new GameAgent(
+          new DefaultGamePieceFactory(randomSource, {
+            ...defaultSpawnPolicy,
+            mode,
+          }),
+          { searchDepth: 1, targetValue: 2048, probabilityThreshold: 0 }
+        )
+          .analyzeNextMove(createBoard(values))
+          ?.moveEvaluations.map(({ evaluation }) => evaluation) ?? [];
+      const randomEvaluations = evaluations("random");
+
+      evaluations("evil").forEach((evaluation, index) =>
+        expect(evaluation).toBeLessThan(randomEvaluations[index])
+      );
+    });
+
+    it("explores every spawn of a move", () => {
+      const nodesVisited = (piecesPerMove: number) =>
+        new GameAgent(
+          new DefaultGamePieceFactory(randomSource, {
+            ...defaultSpawnPolicy,
+            piecesPerMove,
+          }),
+          { searchDepth: 1, targetValue: 2048, probabilityThreshold: 0 }
+        ).analyzeNextMove(createBoard(values))?.statistics?.nodesVisited ?? 0;
+
+      expect(nodesVisited(2)).toBeGreaterThan(nodesVisited(1));
+    });
+
+    it("evaluates every move that changes the board", () => {
+      const recommendation = createAgent(2).analyzeNextMove(
+        createBoard([
+          [2, 4, 8, 16],
+          [0, 0, 0, 0],
+          [4, 8, 16, 32],
+          [8, 16, 32, 64],
+        ])
+      );
+
+      expect(
+        recommendation?.moveEvaluations.map(({ direction }) => direction)
+      ).toEqual([ShiftDirection.Down, ShiftDirection.Up]);
+      expect(recommendation?.moveEvaluations).toContainEqual({
+        direction: recommendation?.direction,
+        evaluation: recommendation?.evaluation,
+      });
+    });
+
+    it("breaks a depth 0 evaluation down into weighted heuristics", () => {
+      const recommendation = createAgent(0).analyzeNextMove(
+        createBoard(values)
+      );
+      const heuristics = Object.values(recommendation?.heuristics ?? {});
+
+      expect(heuristics).toHaveLength(5);
+      expect(
+        heuristics.reduce((sum, { weightedValue }) => sum + weightedValue, 0)
+      ).toBeCloseTo(recommendation?.evaluation ?? NaN);
+    });
+  });
+});
@@ -1,13 +1,113 @@
 import { ShiftDirection } from "../common/shift-direction";
 import { type IGamePieceFactory } from "../factories/game-piece-factory";
 import { type IGameBoard } from "../models/game-board";
-import { type IGamePiece } from "../models/game-piece";
+import {
+  createSearchBoard,
+  type HeuristicFeatures,
+  type ISearchBoard,
+} from "./search-board";
 
-type Config = {
+/**
+ * The weight of every heuristic feature in the evaluation of a position.
+ */
+export type HeuristicWeights = Record<keyof HeuristicFeatures, number>;
+
+export const defaultHeuristicWeights: HeuristicWeights = {
+  emptyCoordinates: 350.0,
+  smoothness: 3.0,
+  monotonicity: 10.0,
+  cornerBonus: 300.0,
+  highestValue: 1.0,
+};
+
+export type GameAgentConfig = {
   targetValue: number;
+  /** The depth of the deepest search iteration. */
   searchDepth: number;
+  /**
+   * Milliseconds after which the search stops deepening and returns the
+   * result of its last completed iteration. Unlimited by default.
+   */
+  timeBudget?: number;
+  /**
+   * Spawn sequences less likely than this are evaluated instead of being
+   * explored further. Defaults to `0.0001`; `0` explores every sequence.
+   */
+  probabilityThreshold?: number;
+  /** Whether to reuse the values of repeated positions. Defaults to `true`. */
+  useTranspositionTable?: boolean;
+  /** Defaults to `defaultHeuristicWeights`. */
+  weights?: HeuristicWeights;
+};
+
+/**
+ * Describes the work a `GameAgent` did to find a recommendation.
+ */
+export type GameAgentSearchStatistics = {
+  /** The depth of the deepest completed search iteration. */
+  depth: number;
+  nodesVisited: number;
+  /** The number of positions whose value was found in the transposition table. */
+  cacheHits: number;
+  /** The milliseconds the search took. */
+  elapsedTime: number;
+};
+
+/**
+ * How a `IGameAgent` rates a single move.
+ */
+export type GameAgentMoveEvaluation = {
+  direction: ShiftDirection;
+  /**
+   * The agent's estimate of the position after the move. Higher is better;
+   * the scale depends on the agent.
+   */
+  evaluation: number;
+};
+
+/**
+ * The value of a heuristic feature, and what it adds to the evaluation of
+ * a position once weighted.
+ */
+export type HeuristicComponent = {
+  value: number;
+  weightedValue: number;
+};
+
+/**
+ * A move recommended by a `IGameAgent`, along with how the agent rates it
+ * and the alternatives.
+ */
+export type GameAgentRecommendation = GameAgentMoveEvaluation & {
+  /** Every move that changes the board, in the order the agent tried them. */
+  moveEvaluations: GameAgentMoveEvaluation[];
+  /**
+   * The heuristic features of the position the recommended move leads to,
+   * before a piece spawns, for agents that evaluate positions with them.
+   */
+  heuristics?: Record<keyof HeuristicFeatures, HeuristicComponent>;
+  /** How the recommendation was found, for agents that search. */
+  statistics?: GameAgentSearchStatistics;
+};
+
+/**
+ * The state shared by the nodes of a single `GameAgent` search.
+ */
+type SearchContext = {
+  deadline: number;
+  /** Whether the search may be stopped once the deadline has passed. */
+  isInterruptible: boolean;
+  nodesVisited: number;
+  cacheHits: number;
+  /** The values of chance nodes, by board hash. */
+  transpositionTable: Map<string, { depth: number; value: number }>;
 };
 
+/**
+ * Thrown to unwind a search iteration that ran out of time.
+ */
+class SearchTimeoutError extends Error {}
+
 /**
  * Represents an agent capable of analyzing the current game board
  * and recommending the next move.
@@ -24,9 +124,38 @@ export interface IGameAgent {
    * or `null` if no valid move can be determined.
    */
   recommendNextMove(board: IGameBoard): ShiftDirection | null;
+
+  /**
+   * Analyzes the provided game board and recommends the next move,
+   * together with the agent's evaluation of it.
+   *
+   * @param {IGameBoard} board - The current state of the game board to evaluate.
+   * @param {(progress: number) => void} [onProgress] - Optionally called while
+   * the analysis runs, with the completed share of the work between `0` and `1`.
+   * @returns {GameAgentRecommendation|null} The recommended move and its evaluation,
+   * or `null` if no valid move can be determined.
+   */
+  analyzeNextMove(
+    board: IGameBoard,
+    onProgress?: (progress: number) => void
+  ): GameAgentRecommendation | null;
+}
+
+/**
+ * Implemented by agents whose evaluation weights can be changed after
+ * they have been created, e.g. from the heuristic weights panel.
+ */
+export interface IWeightedGameAgent {
+  getWeights(): HeuristicWeights;
+
+  setWeights(weights: HeuristicWeights): void;
 }
 
-export class GameAgent implements IGameAgent {
+/**
+ * An expectimax agent. It searches on a `Bitboard` whenever the board
+ * allows it, and falls back to cloning the `IGameBoard` otherwise.
+ */
+export class GameAgent implements IGameAgent, IWeightedGameAgent {
   #directions = [
     ShiftDirection.Down,
     ShiftDirection.Left,
@@ -34,211 +163,308 @@ export class GameAgent implements IGameAgent {
     ShiftDirection.Up,
   ];
 
-  #weights = {
-    emptyCoordinates: 350.0,
-    smoothness: 3.0,
-    monotonicity: 10.0,
-    cornerBonus: 300.0,
-    highestValue: 1.0,
-  };
+  #weights: HeuristicWeights;
 
   #pieceFactory: IGamePieceFactory;
 
-  #config: Config;
+  #config: GameAgentConfig;
 
-  constructor(pieceFactory: IGamePieceFactory, config: Config) {
+  constructor(pieceFactory: IGamePieceFactory, config: GameAgentConfig) {
     this.#pieceFactory = pieceFactory;
     this.#config = config;
+    this.#weights = config.weights ?? defaultHeuristicWeights;
   }
 
-  recommendNextMove(board: IGameBoard): ShiftDirection | null {
-    let recommendedMove: ShiftDirection | null = null;
-    let bestValue = -Infinity;
+  getWeights(): HeuristicWeights {
+    return this.#weights;
+  }
 
-    for (const direction of this.#directions) {
-      const boardClone = board.clone();
-      const hasMoved = boardClone.shift(direction);
+  setWeights(weights: HeuristicWeights) {
+    this.#weights = weights;
+  }
 
-      if (!hasMoved) continue;
+  recommendNextMove(board: IGameBoard): ShiftDirection | null {
+    return this.analyzeNextMove(board)?.direction ?? null;
+  }
 
-      const value = this.#expectimaxNode(
-        boardClone,
-        this.#config.searchDepth,
-        false
-      );
+  analyzeNextMove(
+    board: IGameBoard,
+    onProgress?: (progress: number) => void
+  ): GameAgentRecommendation | null {
+    return this.analyzeSearchBoard(
+      createSearchBoard(board, this.#pieceFactory),
+      onProgress
+    );
+  }
+
+  /**
+   * Same as `analyzeNextMove`, for a board that is already in its
+   * searchable representation.
+   *
+   * The search deepens iteratively, one ply at a time, until it reaches
+   * `searchDepth` or runs out of its time budget. The first iteration, at
+   * depth `0`, only evaluates the position after each move; it always
+   * completes, so that there is a recommendation to return.
+   *
+   * @param {ISearchBoard} board - The board to evaluate.
+   * @param {(progress: number) => void} [onProgress] - Optionally called
+   * after every analyzed direction.
+   * @returns {GameAgentRecommendation|null} The recommended move and its evaluation,
+   * or `null` if no valid move can be determined.
+   */
+  analyzeSearchBoard(
+    board: ISearchBoard,
+    onProgress?: (progress: number) => void
+  ): GameAgentRecommendation | null {
+    const { searchDepth, timeBudget = Infinity } = this.#config;
+    const startTime = performance.now();
+    const context: SearchContext = {
+      deadline: startTime + timeBudget,
+      isInterruptible: false,
+      nodesVisited: 0,
+      cacheHits: 0,
+      transpositionTable: new Map(),
+    };
 
-      if (value > bestValue) {
-        bestValue = value;
-        recommendedMove = direction;
+    let recommendation: GameAgentRecommendation | null = null;
+    let completedDepth = 0;
+
+    for (let depth = 0; depth <= searchDepth; depth += 1) {
+      try {
+        recommendation = this.#searchRoot(board, depth, context, (share) =>
+          onProgress?.(
+            Math.max(
+              (depth + share) / (searchDepth + 1),
+              (performance.now() - startTime) / timeBudget
+            )
+          )
+        );
+      } catch (error) {
+        if (error instanceof SearchTimeoutError) break;
+
+        throw error;
       }
-    }
 
-    return recommendedMove;
-  }
+      completedDepth = depth;
+      context.isInterruptible = true;
 
-  #expectimaxNode(board: IGameBoard, depth: number, isPlayerTurn: boolean) {
-    if (
-      depth === 0 ||
-      !board.hasValidMoves() ||
-      board.findMaxValueGamePiece()?.value === this.#config.targetValue
-    ) {
-      return this.#evaluateBoard(board);
+      if (!recommendation || performance.now() >= context.deadline) break;
     }
 
-    if (isPlayerTurn) {
-      let best = -Infinity;
+    onProgress?.(1);
 
-      for (const direction of this.#directions) {
-        const boardClone = board.clone();
-        const hasMoved = boardClone.shift(direction);
-        if (!hasMoved) continue;
+    const afterstate = recommendation && board.shift(recommendation.direction);
 
-        const value = this.#expectimaxNode(boardClone, depth - 1, false);
-        if (value > best) best = value;
+    return (
+      recommendation && {
+        ...recommendation,
+        ...(afterstate && { heuristics: this.#getHeuristics(afterstate) }),
+        statistics: {
+          depth: completedDepth,
+          nodesVisited: context.nodesVisited,
+          cacheHits: context.cacheHits,
+          elapsedTime: performance.now() - startTime,
+        },
       }
+    );
+  }
 
-      if (best === -Infinity) return this.#evaluateBoard(board);
-      return best;
-    } else {
-      const emptyCoordinates = board.getEmptyCoordinates();
-
-      if (emptyCoordinates.length === 0) return this.#evaluateBoard(board);
-
-      const p2 = 0.9;
-      const p4 = 0.1;
-      let expected = 0;
-
-      for (const { rowIndex, columnIndex } of emptyCoordinates) {
-        const board2 = board.clone();
-        board2.placeGamePiece(this.#pieceFactory.createPiece(2), {
-          rowIndex,
-          columnIndex,
-        });
-
-        expected +=
-          (p2 / emptyCoordinates.length) *
-          this.#expectimaxNode(board2, depth - 1, true);
-
-        const board4 = board.clone();
-        board4.placeGamePiece(this.#pieceFactory.createPiece(4), {
-          rowIndex,
-          columnIndex,
-        });
-
-        expected +=
-          (p4 / emptyCoordinates.length) *
-          this.#expectimaxNode(board4, depth - 1, true);
+  #searchRoot(
+    board: ISearchBoard,
+    depth: number,
+    context: SearchContext,
+    onProgress: (share: number) => void
+  ): GameAgentRecommendation | null {
+    const moveEvaluations: GameAgentMoveEvaluation[] = [];
+    let best: GameAgentMoveEvaluation | null = null;
+
+    for (const [index, direction] of this.#directions.entries()) {
+      const shiftedBoard = board.shift(direction);
+
+      onProgress(index / this.#directions.length);
+
+      if (!shiftedBoard) continue;
+
+      const moveEvaluation = {
+        direction,
+        evaluation: this.#expectimaxNode(
+          shiftedBoard,
+          depth,
+          this.#pieceFactory.getSpawnPolicy().piecesPerMove,
+          1,
+          context
+        ),
+      };
+
+      moveEvaluations.push(moveEvaluation);
+
+      if (!best || moveEvaluation.evaluation > best.evaluation) {
+        best = moveEvaluation;
       }
-
-      return expected;
     }
-  }
 
-  #log2or0(value: number): number {
-    return value > 0 ? Math.log2(value) : 0;
+    return best && { ...best, moveEvaluations };
   }
 
-  #evaluateBoard(board: IGameBoard) {
-    const emptyCoordinatesCount = board.getEmptyCoordinates().length;
-    const highestValue = board.findMaxValueGamePiece()?.value ?? 0;
-    const grid = board.getGrid();
-    const gridSize = board.getSize();
-
-    let cornerBonus = 0;
-
-    const smoothness = this.#evaluateBoardSmoothness(board);
-    const monotonicity = this.#evaluateBoardMonotonicity(board);
+  /**
+   * Spawns follow the spawn policy of the piece factory: their values are
+   * weighed by their probabilities, or, in `evil` mode, the worst spawn
+   * for the player is assumed. When several pieces spawn per move, each
+   * one is a chance node of its own within the same ply.
+   *
+   * @param {ISearchBoard} board - The position to evaluate.
+   * @param {number} depth - The number of plies left to explore.
+   * @param {number} spawnsLeft - The number of pieces that spawn before
+   * the player moves, `0` on the player's turn.
+   * @param {number} probability - The probability of the spawns leading to the position.
+   * @param {SearchContext} context - The state of the current search.
+   * @returns {number} The expected evaluation of the position.
+   */
+  #expectimaxNode(
+    board: ISearchBoard,
+    depth: number,
+    spawnsLeft: number,
+    probability: number,
+    context: SearchContext
+  ): number {
+    context.nodesVisited += 1;
 
     if (
-      grid[0][0]?.value === highestValue ||
-      grid[0][gridSize - 1]?.value === highestValue ||
-      grid[gridSize - 1][0]?.value === highestValue ||
-      grid[gridSize - 1][gridSize - 1]?.value === highestValue
+      context.isInterruptible &&
+      context.nodesVisited % 1024 === 0 &&
+      performance.now() >= context.deadline
     ) {
-      cornerBonus = 1;
+      throw new SearchTimeoutError();
     }
 
-    return (
-      this.#weights.emptyCoordinates * emptyCoordinatesCount +
-      this.#weights.smoothness * smoothness +
-      this.#weights.monotonicity * monotonicity +
-      this.#weights.cornerBonus * cornerBonus +
-      this.#weights.highestValue * highestValue
-    );
-  }
+    if (
+      depth === 0 ||
+      !board.hasValidMoves() ||
+      board.getMaxValue() >= this.#config.targetValue
+    ) {
+      return this.#evaluateBoard(board);
+    }
 
-  #evaluateBoardSmoothness(board: IGameBoard): number {
-    const grid = board.getGrid();
-    const gridSize = board.getSize();
+    const spawnPolicy = this.#pieceFactory.getSpawnPolicy();
 
-    let smoothness = 0;
+    if (spawnsLeft === 0) {
+      let best = -Infinity;
 
-    for (let rowIndex = 0; rowIndex < gridSize; rowIndex += 1) {
-      for (let columnIndex = 0; columnIndex < gridSize; columnIndex += 1) {
-        const gamePiece = grid[rowIndex][columnIndex];
+      for (const direction of this.#directions) {
+        const shiftedBoard = board.shift(direction);
+        if (!shiftedBoard) continue;
+
+        const value = this.#expectimaxNode(
+          shiftedBoard,
+          depth - 1,
+          spawnPolicy.piecesPerMove,
+          probability,
+          context
+        );
+        if (value > best) best = value;
+      }
 
-        if (!gamePiece) {
-          continue;
-        }
+      if (best === -Infinity) return this.#evaluateBoard(board);
+      return best;
+    }
 
-        const valueLog = this.#log2or0(gamePiece.value);
+    if (probability < (this.#config.probabilityThreshold ?? 0.0001)) {
+      return this.#evaluateBoard(board);
+    }
 
-        if (rowIndex + 1 < gridSize && grid[rowIndex + 1][columnIndex]) {
-          smoothness -= Math.abs(
-            valueLog - this.#log2or0(grid[rowIndex + 1][columnIndex]!.value)
-          );
-        }
+    const useTranspositionTable = this.#config.useTranspositionTable ?? true;
+    // The same board can be reached before the first and the second of
+    // several spawns.
+    const hash = useTranspositionTable
+      ? spawnPolicy.piecesPerMove > 1
+        ? `${board.getHash()}/${spawnsLeft}`
+        : board.getHash()
+      : "";
+    const cached = context.transpositionTable.get(hash);
+
+    // The same board can be reached at different depths, since a 4 spawns
+    // as much as two 2s. Reusing values across depths skews the averages.
+    if (cached && cached.depth === depth) {
+      context.cacheHits += 1;
+      return cached.value;
+    }
 
-        if (columnIndex + 1 < gridSize && grid[rowIndex][columnIndex + 1]) {
-          smoothness -= Math.abs(
-            valueLog - this.#log2or0(grid[rowIndex][columnIndex + 1]!.value)
+    // Every spawn but the last one of a move leads to another spawn.
+    const childDepth = spawnsLeft > 1 ? depth : depth - 1;
+    let expected = spawnPolicy.mode === "evil" ? Infinity : 0;
+    let isFull = true;
+
+    for (const {
+      value,
+      probability: valueProbability,
+    } of spawnPolicy.options) {
+      const boards = board.placeInEachEmptyCell(value);
+      const childProbability = valueProbability / boards.length;
+
+      for (const childBoard of boards) {
+        isFull = false;
+
+        if (spawnPolicy.mode === "evil") {
+          expected = Math.min(
+            expected,
+            this.#expectimaxNode(
+              childBoard,
+              childDepth,
+              spawnsLeft - 1,
+              probability,
+              context
+            )
           );
+        } else {
+          expected +=
+            childProbability *
+            this.#expectimaxNode(
+              childBoard,
+              childDepth,
+              spawnsLeft - 1,
+              probability * childProbability,
+              context
+            );
         }
       }
     }
 
-    return smoothness;
-  }
-
-  #evaluateBoardMonotonicity(board: IGameBoard): number {
-    const calcLineMonotonicity = (row: (IGamePiece | null)[]): number => {
-      let inc = 0;
-      let dec = 0;
+    if (isFull) return this.#evaluateBoard(board);
 
-      for (let i = 0; i < row.length - 1; i++) {
-        const a = row[i];
-        const b2 = row[i + 1];
-        if (a === null || b2 === null) continue;
-
-        const va = this.#log2or0(a.value);
-        const vb = this.#log2or0(b2.value);
-
-        if (va <= vb) inc += vb - va;
-        if (va >= vb) dec += va - vb;
-      }
-
-      return Math.max(inc, dec);
-    };
-
-    const grid = board.getGrid();
-    const gridSize = board.getSize();
-
-    let monotonicity = 0;
-
-    for (let rowIndex = 0; rowIndex < gridSize; rowIndex += 1) {
-      monotonicity += calcLineMonotonicity(grid[rowIndex]);
+    if (useTranspositionTable) {
+      context.transpositionTable.set(hash, { depth, value: expected });
     }
 
-    for (let columnIndex = 0; columnIndex < gridSize; columnIndex += 1) {
-      const column = [];
+    return expected;
+  }
 
-      for (let rowIndex = 0; rowIndex < gridSize; rowIndex += 1) {
-        column.push(grid[rowIndex][columnIndex]);
-      }
+  #getHeuristics(
+    board: ISearchBoard
+  ): Record<keyof HeuristicFeatures, HeuristicComponent> {
+    const features = board.getHeuristicFeatures();
+    const component = (feature: keyof HeuristicFeatures) => ({
+      value: features[feature],
+      weightedValue: this.#weights[feature] * features[feature],
+    });
+
+    return {
+      emptyCoordinates: component("emptyCoordinates"),
+      smoothness: component("smoothness"),
+      monotonicity: component("monotonicity"),
+      cornerBonus: component("cornerBonus"),
+      highestValue: component("highestValue"),
+    };
+  }
 
-      monotonicity += calcLineMonotonicity(column);
-    }
+  #evaluateBoard(board: ISearchBoard) {
+    const features = board.getHeuristicFeatures();
 
-    return monotonicity;
+    return (
+      this.#weights.emptyCoordinates * features.emptyCoordinates +
+      this.#weights.smoothness * features.smoothness +
+      this.#weights.monotonicity * features.monotonicity +
+      this.#weights.cornerBonus * features.cornerBonus +
+      this.#weights.highestValue * features.highestValue
+    );
   }
 }
@@ -0,0 +1,77 @@
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { GameBoard } from "../models/game-board";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import { type IGameAgent } from "./game-agent";
+import { gameAgentRegistry } from "./game-agent-registry";
+import {
+  type GameAgentWorkerRequest,
+  type GameAgentWorkerResponse,
+} from "./worker-game-agent";
+
+// Boards are only deserialized here, never spawned on, so the random
+// source only has to satisfy the board and factory constructors.
+const randomSource = new SeededRandomSource(0);
+const pieceFactory = new DefaultGamePieceFactory(randomSource);
+
+/**
+ * The last agent created, reused as long as the requests ask for the same
+ * agent with the same options. Keeps e.g. the n-tuple network from being
+ * loaded again for every move.
+ */
+let cachedAgent: { key: string; agent: Promise<IGameAgent> } | null = null;
+
+function getAgent({ agentId, options }: GameAgentWorkerRequest) {
+  const key = JSON.stringify({ agentId, options });
+
+  if (cachedAgent?.key !== key) {
+    const agent = gameAgentRegistry.get(agentId).create({
+      options,
+      loadJson: async (url) => {
+        const response = await fetch(url);
+
+        if (!response.ok) {
+          throw new Error(`Could not load ${url}: ${response.status}.`);
+        }
+
+        return response.json();
+      },
+    });
+
+    cachedAgent = { key, agent };
+    // A failed creation is retried with the next request.
+    agent.catch(() => {
+      if (cachedAgent?.key === key) {
+        cachedAgent = null;
+      }
+    });
+  }
+
+  return cachedAgent.agent;
+}
+
+function respond(response: GameAgentWorkerResponse) {
+  self.postMessage(response);
+}
+
+self.addEventListener(
+  "message",
+  async (event: MessageEvent<GameAgentWorkerRequest>) => {
+    const { requestId, board } = event.data;
+
+    try {
+      const agent = await getAgent(event.data);
+      const recommendation = agent.analyzeNextMove(
+        GameBoard.deserialize(board, pieceFactory, randomSource),
+        (progress) => respond({ type: "progress", requestId, progress })
+      );
+
+      respond({ type: "result", requestId, recommendation });
+    } catch (error) {
+      respond({
+        type: "error",
+        requestId,
+        message: (error as Error).message,
+      });
+    }
+  }
+);
@@ -0,0 +1,60 @@
+import { ShiftDirection } from "../common/shift-direction";
+import { type IGameBoard } from "../models/game-board";
+import {
+  type GameAgentMoveEvaluation,
+  type GameAgentRecommendation,
+  type IGameAgent,
+} from "./game-agent";
+
+/**
+ * Looks a single move ahead and takes the one that scores the most,
+ * preferring the move that leaves more empty cells on a tie.
+ */
+export class GreedyGameAgent implements IGameAgent {
+  #directions = [
+    ShiftDirection.Down,
+    ShiftDirection.Left,
+    ShiftDirection.Right,
+    ShiftDirection.Up,
+  ];
+
+  recommendNextMove(board: IGameBoard): ShiftDirection | null {
+    return this.analyzeNextMove(board)?.direction ?? null;
+  }
+
+  analyzeNextMove(
+    board: IGameBoard,
+    onProgress?: (progress: number) => void
+  ): GameAgentRecommendation | null {
+    const moveEvaluations: GameAgentMoveEvaluation[] = [];
+    let best: GameAgentMoveEvaluation | null = null;
+    let bestEmptyCount = 0;
+
+    for (const [index, direction] of this.#directions.entries()) {
+      const boardClone = board.clone();
+      const { hasMoved, scoreGained } = boardClone.shift(direction);
+
+      onProgress?.(index / this.#directions.length);
+
+      if (!hasMoved) continue;
+
+      const emptyCount = boardClone.getEmptyCoordinates().length;
+      const moveEvaluation = { direction, evaluation: scoreGained };
+
+      moveEvaluations.push(moveEvaluation);
+
+      if (
+        !best ||
+        scoreGained > best.evaluation ||
+        (scoreGained === best.evaluation && emptyCount > bestEmptyCount)
+      ) {
+        best = moveEvaluation;
+        bestEmptyCount = emptyCount;
+      }
+    }
+
+    onProgress?.(1);
+
+    return best && { ...best, moveEvaluations };
+  }
+}
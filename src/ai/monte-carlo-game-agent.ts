@@ -0,0 +1,140 @@
+import { ShiftDirection } from "../common/shift-direction";
+import { type IGamePieceFactory } from "../factories/game-piece-factory";
+import { type IGameBoard } from "../models/game-board";
+import { type IRandomSource } from "../random/random-source";
+import {
+  type GameAgentMoveEvaluation,
+  type GameAgentRecommendation,
+  type IGameAgent,
+} from "./game-agent";
+import {
+  createSearchBoard,
+  type ISearchBoard,
+  spawnRandomPiece,
+} from "./search-board";
+
+type Config = {
+  /** The number of random games played out after every possible move. */
+  rolloutCount: number;
+  /** The number of moves after which a random game is stopped. */
+  rolloutLength: number;
+};
+
+/**
+ * Plays random games out after every possible move and takes the move
+ * whose games survive the longest on average. The evaluation is that
+ * average number of moves. Pieces spawn in the games with the values and
+ * counts of the spawn policy of the piece factory, in random cells.
+ */
+export class MonteCarloGameAgent implements IGameAgent {
+  #directions = [
+    ShiftDirection.Down,
+    ShiftDirection.Left,
+    ShiftDirection.Right,
+    ShiftDirection.Up,
+  ];
+
+  #pieceFactory: IGamePieceFactory;
+
+  #randomSource: IRandomSource;
+
+  #config: Config;
+
+  constructor(
+    pieceFactory: IGamePieceFactory,
+    randomSource: IRandomSource,
+    config: Config
+  ) {
+    this.#pieceFactory = pieceFactory;
+    this.#randomSource = randomSource;
+    this.#config = config;
+  }
+
+  recommendNextMove(board: IGameBoard): ShiftDirection | null {
+    return this.analyzeNextMove(board)?.direction ?? null;
+  }
+
+  analyzeNextMove(
+    board: IGameBoard,
+    onProgress?: (progress: number) => void
+  ): GameAgentRecommendation | null {
+    const searchBoard = createSearchBoard(board, this.#pieceFactory);
+    const moveEvaluations: GameAgentMoveEvaluation[] = [];
+    let best: GameAgentMoveEvaluation | null = null;
+
+    for (const [index, direction] of this.#directions.entries()) {
+      const shiftedBoard = searchBoard.shift(direction);
+
+      onProgress?.(index / this.#directions.length);
+
+      if (!shiftedBoard) continue;
+
+      let survivedMoves = 0;
+
+      for (let rollout = 0; rollout < this.#config.rolloutCount; rollout += 1) {
+        survivedMoves += this.#rollout(shiftedBoard);
+      }
+
+      const moveEvaluation = {
+        direction,
+        evaluation: survivedMoves / this.#config.rolloutCount,
+      };
+
+      moveEvaluations.push(moveEvaluation);
+
+      if (!best || moveEvaluation.evaluation > best.evaluation) {
+        best = moveEvaluation;
+      }
+    }
+
+    onProgress?.(1);
+
+    return best && { ...best, moveEvaluations };
+  }
+
+  /**
+   * @param {ISearchBoard} board - The board right after a move.
+   * @returns {number} The number of random moves played before the game
+   * ended or the rollout length was reached.
+   */
+  #rollout(board: ISearchBoard): number {
+    let currentBoard: ISearchBoard | null = board;
+    let moveCount = 0;
+
+    const spawnPolicy = this.#pieceFactory.getSpawnPolicy();
+
+    while (currentBoard && moveCount < this.#config.rolloutLength) {
+      for (let index = 0; index < spawnPolicy.piecesPerMove; index += 1) {
+        currentBoard = spawnRandomPiece(
+          currentBoard,
+          this.#randomSource,
+          spawnPolicy
+        );
+      }
+
+      currentBoard = this.#playRandomMove(currentBoard);
+
+      if (currentBoard) {
+        moveCount += 1;
+      }
+    }
+
+    return moveCount;
+  }
+
+  #playRandomMove(board: ISearchBoard): ISearchBoard | null {
+    const directions = [...this.#directions];
+
+    while (directions.length > 0) {
+      const [direction] = directions.splice(
+        this.#randomSource.nextInt(0, directions.length - 1),
+        1
+      );
+      const shiftedBoard = board.shift(direction);
+
+      if (shiftedBoard) return shiftedBoard;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,114 @@
+import { ShiftDirection } from "../common/shift-direction";
+import { type IGameBoard } from "../models/game-board";
+import { Bitboard } from "./bitboard";
+import { type GameAgentRecommendation, type IGameAgent } from "./game-agent";
+import { type NTupleNetwork } from "./n-tuple-network";
+
+/**
+ * Takes the move that maximizes the score it gains plus the value the
+ * n-tuple network assigns to the resulting board. The network is trained
+ * by temporal difference learning, see `trainNTupleNetwork`.
+ *
+ * Networks are defined for 4x4 boards only.
+ */
+export class NTupleGameAgent implements IGameAgent {
+  #directions = [
+    ShiftDirection.Down,
+    ShiftDirection.Left,
+    ShiftDirection.Right,
+    ShiftDirection.Up,
+  ];
+
+  #network: NTupleNetwork;
+
+  constructor(network: NTupleNetwork) {
+    this.#network = network;
+  }
+
+  recommendNextMove(board: IGameBoard): ShiftDirection | null {
+    return this.analyzeNextMove(board)?.direction ?? null;
+  }
+
+  /**
+   * @throws {Error} If the board cannot be held by a `Bitboard`.
+   */
+  analyzeNextMove(
+    board: IGameBoard,
+    onProgress?: (progress: number) => void
+  ): GameAgentRecommendation | null {
+    const moves = evaluateNTupleMoves(
+      this.#network,
+      Bitboard.fromGameBoard(board),
+      this.#directions
+    );
+    const best = selectBestNTupleMove(moves);
+
+    onProgress?.(1);
+
+    return (
+      best && {
+        direction: best.direction,
+        evaluation: best.evaluation,
+        moveEvaluations: moves.map(({ direction, evaluation }) => ({
+          direction,
+          evaluation,
+        })),
+      }
+    );
+  }
+}
+
+/**
+ * A move chosen by the n-tuple network, along with what it leads to.
+ */
+export type NTupleMove = {
+  direction: ShiftDirection;
+  /** The score gained plus the value of the afterstate. */
+  evaluation: number;
+  scoreGained: number;
+  /** The board after the move, before a piece spawns. */
+  afterstate: Bitboard;
+};
+
+/**
+ * @param {NTupleNetwork} network - Values the boards after each move.
+ * @param {Bitboard} board - The board to move on.
+ * @param {ShiftDirection[]} directions - The moves to consider.
+ * @returns {NTupleMove[]} The moves that change the board, in the order of `directions`.
+ */
+export function evaluateNTupleMoves(
+  network: NTupleNetwork,
+  board: Bitboard,
+  directions: ShiftDirection[]
+): NTupleMove[] {
+  const moves: NTupleMove[] = [];
+
+  for (const direction of directions) {
+    const afterstate = board.shift(direction);
+    if (!afterstate) continue;
+
+    const scoreGained = board.getShiftScore(direction);
+    const evaluation = scoreGained + network.evaluate(afterstate.getRanks());
+
+    moves.push({ direction, evaluation, scoreGained, afterstate });
+  }
+
+  return moves;
+}
+
+/**
+ * @param {NTupleMove[]} moves - The moves to choose from.
+ * @returns {NTupleMove|null} The first of the best evaluated moves, or
+ * `null` if there are none.
+ */
+export function selectBestNTupleMove(moves: NTupleMove[]): NTupleMove | null {
+  let best: NTupleMove | null = null;
+
+  for (const move of moves) {
+    if (!best || move.evaluation > best.evaluation) {
+      best = move;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { defaultNTuples, NTupleNetwork } from "./n-tuple-network";
+
+const ranks = [1, 2, 0, 0, 3, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 4];
+
+/** `ranks` rotated by a quarter turn clockwise. */
+const rotatedRanks = [0, 0, 3, 1, 0, 0, 0, 2, 0, 0, 0, 0, 4, 0, 0, 0];
+
+describe("NTupleNetwork", () => {
+  it("evaluates every board as 0 before it is trained", () => {
+    expect(new NTupleNetwork(defaultNTuples).evaluate(ranks)).toBe(0);
+  });
+
+  it("moves the value of a board in the direction of the update", () => {
+    const network = new NTupleNetwork(defaultNTuples);
+
+    network.update(ranks, 10);
+    expect(network.evaluate(ranks)).toBeGreaterThan(0);
+
+    network.update(ranks, -20);
+    expect(network.evaluate(ranks)).toBeLessThan(0);
+  });
+
+  it("evaluates rotated boards the same", () => {
+    const network = new NTupleNetwork(defaultNTuples);
+
+    network.update(ranks, 10);
+
+    expect(network.evaluate(rotatedRanks)).toBeCloseTo(network.evaluate(ranks));
+  });
+
+  it("serializes and deserializes a network", () => {
+    const network = new NTupleNetwork(defaultNTuples);
+
+    network.update(ranks, 10);
+
+    const restored = NTupleNetwork.deserialize(
+      JSON.parse(JSON.stringify(network.serialize()))
+    );
+
+    expect(restored.evaluate(ranks)).toBeCloseTo(network.evaluate(ranks), 2);
+    expect(restored.serialize()).toEqual(network.serialize());
+  });
+
+  it.each([
+    ["no network", null],
+    ["tuples with cells off the board", { tuples: [[0, 16]], weights: [{}] }],
+    ["a missing weight table", { tuples: [[0, 1]], weights: [] }],
+    ["a weight outside its table", { tuples: [[0]], weights: [{ 16: 1 }] }],
+    ["a weight that is not a number", { tuples: [[0]], weights: [{ 1: "1" }] }],
+  ])("rejects %s", (_, serialized) => {
+    expect(() => NTupleNetwork.deserialize(serialized)).toThrow();
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * A JSON-compatible representation of a `NTupleNetwork`.
+ */
+export type SerializedNTupleNetwork = {
+  /** The cells of every tuple, as `rowIndex * 4 + columnIndex` of a 4x4 board. */
+  tuples: number[][];
+  /** The non-zero weights of every tuple, keyed by the index of the tuple state. */
+  weights: Record<string, number>[];
+};
+
+/**
+ * Two rows and three 2x2 squares. Together with their symmetric variants
+ * they cover every row, column and square of the board.
+ */
+export const defaultNTuples = [
+  [0, 1, 2, 3],
+  [4, 5, 6, 7],
+  [0, 1, 4, 5],
+  [1, 2, 5, 6],
+  [5, 6, 9, 10],
+];
+
+const BOARD_SIZE = 4;
+
+/**
+ * @returns {((cell: number) => number)[]} The 8 rotations and reflections
+ * of a 4x4 board, as mappings between cell indices.
+ */
+function getSymmetries(): ((cell: number) => number)[] {
+  const rotate = (cell: number) => {
+    const rowIndex = Math.floor(cell / BOARD_SIZE);
+    const columnIndex = cell % BOARD_SIZE;
+
+    return columnIndex * BOARD_SIZE + (BOARD_SIZE - 1 - rowIndex);
+  };
+  const reflect = (cell: number) => {
+    const rowIndex = Math.floor(cell / BOARD_SIZE);
+    const columnIndex = cell % BOARD_SIZE;
+
+    return rowIndex * BOARD_SIZE + (BOARD_SIZE - 1 - columnIndex);
+  };
+  const symmetries: ((cell: number) => number)[] = [];
+
+  for (let rotations = 0; rotations < 4; rotations += 1) {
+    for (const isReflected of [false, true]) {
+      symmetries.push((cell) => {
+        let mapped = isReflected ? reflect(cell) : cell;
+
+        for (let index = 0; index < rotations; index += 1) {
+          mapped = rotate(mapped);
+        }
+
+        return mapped;
+      });
+    }
+  }
+
+  return symmetries;
+}
+
+/**
+ * A value function for 4x4 boards, as used by n-tuple network agents.
+ *
+ * Every tuple is a fixed set of cells. The ranks in those cells, i.e. the
+ * base-2 logarithms of their piece values, index a table of weights, and
+ * the value of a board is the sum of the weights its tuples index. Each
+ * tuple is also applied to the 8 rotations and reflections of the board,
+ * sharing its weights between them.
+ */
+export class NTupleNetwork {
+  #tuples: number[][];
+
+  /** The symmetric variants of every tuple. */
+  #variants: number[][][];
+
+  #weights: Float32Array[];
+
+  /**
+   * @param {number[][]} tuples - The cells of every tuple.
+   * @param {Float32Array[]} [weights] - The weights of every tuple; zeros by default.
+   */
+  constructor(tuples: number[][], weights?: Float32Array[]) {
+    const symmetries = getSymmetries();
+
+    this.#tuples = tuples;
+    this.#variants = tuples.map((tuple) =>
+      symmetries.map((symmetry) => tuple.map(symmetry))
+    );
+    this.#weights =
+      weights ?? tuples.map((tuple) => new Float32Array(16 ** tuple.length));
+  }
+
+  /**
+   * @param {number[]} ranks - The rank of every cell, row by row.
+   * @returns {number} The value of the board.
+   */
+  evaluate(ranks: number[]): number {
+    let value = 0;
+
+    for (const [tupleIndex, variants] of this.#variants.entries()) {
+      const weights = this.#weights[tupleIndex];
+
+      for (const cells of variants) {
+        value += weights[this.#getStateIndex(cells, ranks)];
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Moves the value of the board by `delta`, spread evenly over the
+   * weights the board indexes.
+   *
+   * @param {number[]} ranks - The rank of every cell, row by row.
+   * @param {number} delta - The change of the value of the board.
+   */
+  update(ranks: number[], delta: number) {
+    const step = delta / (this.#tuples.length * this.#variants[0].length);
+
+    for (const [tupleIndex, variants] of this.#variants.entries()) {
+      const weights = this.#weights[tupleIndex];
+
+      for (const cells of variants) {
+        weights[this.#getStateIndex(cells, ranks)] += step;
+      }
+    }
+  }
+
+  /**
+   * @param {number} [precision] - The number of decimals the weights are rounded to.
+   * @returns {SerializedNTupleNetwork} The network, with only its non-zero weights.
+   */
+  serialize(precision = 3): SerializedNTupleNetwork {
+    return {
+      tuples: this.#tuples,
+      weights: this.#weights.map((weights) => {
+        const nonZeroWeights: Record<string, number> = {};
+
+        for (const [index, weight] of weights.entries()) {
+          const rounded = Number(weight.toFixed(precision));
+
+          if (rounded !== 0) {
+            nonZeroWeights[index] = rounded;
+          }
+        }
+
+        return nonZeroWeights;
+      }),
+    };
+  }
+
+  /**
+   * @param {unknown} serialized - A network as returned by `serialize`.
+   * @returns {NTupleNetwork} The restored network.
+   * @throws {Error} If the network is malformed.
+   */
+  static deserialize(serialized: unknown): NTupleNetwork {
+    const { tuples, weights } = (serialized ?? {}) as SerializedNTupleNetwork;
+
+    if (
+      !Array.isArray(tuples) ||
+      tuples.some(
+        (tuple) =>
+          !Array.isArray(tuple) ||
+          tuple.length === 0 ||
+          tuple.some(
+            (cell) =>
+              !Number.isInteger(cell) ||
+              cell < 0 ||
+              cell >= BOARD_SIZE * BOARD_SIZE
+          )
+      )
+    ) {
+      throw new Error("N-tuple network tuples must be lists of cell indices.");
+    }
+
+    if (
+      !Array.isArray(weights) ||
+      weights.length !== tuples.length ||
+      weights.some((table) => typeof table !== "object" || table === null)
+    ) {
+      throw new Error("N-tuple network must have one weight table per tuple.");
+    }
+
+    return new NTupleNetwork(
+      tuples,
+      tuples.map((tuple, tupleIndex) => {
+        const table = new Float32Array(16 ** tuple.length);
+
+        for (const [index, weight] of Object.entries(weights[tupleIndex])) {
+          const stateIndex = Number(index);
+
+          if (
+            !Number.isInteger(stateIndex) ||
+            stateIndex < 0 ||
+            stateIndex >= table.length ||
+            !Number.isFinite(weight)
+          ) {
+            throw new Error(
+              `Invalid n-tuple network weight for tuple ${tupleIndex}: ${index}.`
+            );
+          }
+
+          table[stateIndex] = weight;
+        }
+
+        return table;
+      })
+    );
+  }
+
+  #getStateIndex(cells: number[], ranks: number[]): number {
+    let index = 0;
+
+    for (const cell of cells) {
+      index = index * 16 + ranks[cell];
+    }
+
+    return index;
+  }
+}
@@ -0,0 +1,83 @@
+import { ShiftDirection } from "../common/shift-direction";
+import { type IRandomSource } from "../random/random-source";
+import { Bitboard } from "./bitboard";
+import {
+  evaluateNTupleMoves,
+  selectBestNTupleMove,
+} from "./n-tuple-game-agent";
+import { type NTupleNetwork } from "./n-tuple-network";
+import { spawnRandomPiece } from "./search-board";
+
+export type NTupleTrainingOptions = {
+  games: number;
+  learningRate: number;
+};
+
+/**
+ * The outcome of a single training game.
+ */
+export type NTupleTrainingGame = {
+  game: number;
+  score: number;
+  maxValue: number;
+  moveCount: number;
+};
+
+const directions = [
+  ShiftDirection.Down,
+  ShiftDirection.Left,
+  ShiftDirection.Right,
+  ShiftDirection.Up,
+];
+
+/**
+ * Trains the network by temporal difference learning on afterstates: the
+ * network plays 4x4 games against itself, and after every move the value
+ * of the previous afterstate is moved towards the score gained by the
+ * move plus the value of the new afterstate. The last afterstate of a
+ * game is moved towards `0`.
+ *
+ * @param {NTupleNetwork} network - The network to train, in place.
+ * @param {NTupleTrainingOptions} options - The training settings.
+ * @param {IRandomSource} randomSource - Decides where pieces spawn.
+ * @param {(game: NTupleTrainingGame) => void} [onGame] - Optionally called after every game.
+ */
+export function trainNTupleNetwork(
+  network: NTupleNetwork,
+  options: NTupleTrainingOptions,
+  randomSource: IRandomSource,
+  onGame?: (game: NTupleTrainingGame) => void
+) {
+  for (let game = 1; game <= options.games; game += 1) {
+    let board = spawnRandomPiece(
+      spawnRandomPiece(new Bitboard(0, 0), randomSource),
+      randomSource
+    );
+    let previousAfterstate: number[] | null = null;
+    let score = 0;
+    let moveCount = 0;
+
+    for (;;) {
+      const move = selectBestNTupleMove(
+        evaluateNTupleMoves(network, board, directions)
+      );
+      const target = move?.evaluation ?? 0;
+
+      if (previousAfterstate) {
+        network.update(
+          previousAfterstate,
+          options.learningRate * (target - network.evaluate(previousAfterstate))
+        );
+      }
+
+      if (!move) break;
+
+      previousAfterstate = move.afterstate.getRanks();
+      score += move.scoreGained;
+      moveCount += 1;
+      board = spawnRandomPiece(move.afterstate, randomSource);
+    }
+
+    onGame?.({ game, score, maxValue: board.getMaxValue(), moveCount });
+  }
+}
@@ -0,0 +1,58 @@
+import { ShiftDirection } from "../common/shift-direction";
+import { type IGamePieceFactory } from "../factories/game-piece-factory";
+import { type IGameBoard } from "../models/game-board";
+import { type IRandomSource } from "../random/random-source";
+import { type GameAgentRecommendation, type IGameAgent } from "./game-agent";
+import { createSearchBoard } from "./search-board";
+
+/**
+ * Picks uniformly among the moves that change the board. Serves as the
+ * baseline the other agents are measured against.
+ */
+export class RandomGameAgent implements IGameAgent {
+  #directions = [
+    ShiftDirection.Down,
+    ShiftDirection.Left,
+    ShiftDirection.Right,
+    ShiftDirection.Up,
+  ];
+
+  #pieceFactory: IGamePieceFactory;
+
+  #randomSource: IRandomSource;
+
+  constructor(pieceFactory: IGamePieceFactory, randomSource: IRandomSource) {
+    this.#pieceFactory = pieceFactory;
+    this.#randomSource = randomSource;
+  }
+
+  recommendNextMove(board: IGameBoard): ShiftDirection | null {
+    return this.analyzeNextMove(board)?.direction ?? null;
+  }
+
+  analyzeNextMove(
+    board: IGameBoard,
+    onProgress?: (progress: number) => void
+  ): GameAgentRecommendation | null {
+    const searchBoard = createSearchBoard(board, this.#pieceFactory);
+    const validDirections = this.#directions.filter(
+      (direction) => searchBoard.shift(direction) !== null
+    );
+
+    onProgress?.(1);
+
+    if (validDirections.length === 0) return null;
+
+    return {
+      direction:
+        validDirections[
+          this.#randomSource.nextInt(0, validDirections.length - 1)
+        ],
+      evaluation: 0,
+      moveEvaluations: validDirections.map((direction) => ({
+        direction,
+        evaluation: 0,
+      })),
+    };
+  }
+}
@@ -0,0 +1,262 @@
+import { type ShiftDirection } from "../common/shift-direction";
+import { type IGamePieceFactory } from "../factories/game-piece-factory";
+import { type IGameBoard } from "../models/game-board";
+import { type IGamePiece } from "../models/game-piece";
+import {
+  defaultSpawnPolicy,
+  pickSpawnValue,
+  type SpawnPolicy,
+} from "../models/spawn-policy";
+import { type IRandomSource } from "../random/random-source";
+import { Bitboard } from "./bitboard";
+
+/**
+ * The board features a `GameAgent` weighs when evaluating a position.
+ */
+export type HeuristicFeatures = {
+  /** The number of empty cells. */
+  emptyCoordinates: number;
+  /** Minus the sum of log2 differences between neighbouring pieces. */
+  smoothness: number;
+  /** How consistently piece values rise or fall along rows and columns. */
+  monotonicity: number;
+  /** `1` if the highest piece sits in a corner, `0` otherwise. */
+  cornerBonus: number;
+  /** The value of the highest piece. */
+  highestValue: number;
+};
+
+/**
+ * An immutable view of a game board, used by the agents to explore
+ * future positions. Implementations trade generality for speed.
+ */
+export interface ISearchBoard {
+  /**
+   * @param {ShiftDirection} direction - The direction to shift the board in.
+   * @returns {ISearchBoard|null} The shifted board, or `null` if no piece moved.
+   */
+  shift(direction: ShiftDirection): ISearchBoard | null;
+
+  /**
+   * @param {number} value - The value of the piece to place.
+   * @returns {ISearchBoard[]} One board per empty cell, with the piece placed in it.
+   */
+  placeInEachEmptyCell(value: number): ISearchBoard[];
+
+  /**
+   * @returns {number} The value of the highest piece, or `0` if the board is empty.
+   */
+  getMaxValue(): number;
+
+  hasValidMoves(): boolean;
+
+  getHeuristicFeatures(): HeuristicFeatures;
+
+  /**
+   * @returns {string} A key that is equal for boards with equal pieces.
+   */
+  getHash(): string;
+}
+
+/**
+ * A `ISearchBoard` backed by a `IGameBoard`. It supports every board the
+ * game does, but clones the whole grid for every explored position.
+ */
+export class GameBoardSearchBoard implements ISearchBoard {
+  #board: IGameBoard;
+
+  #pieceFactory: IGamePieceFactory;
+
+  constructor(board: IGameBoard, pieceFactory: IGamePieceFactory) {
+    this.#board = board;
+    this.#pieceFactory = pieceFactory;
+  }
+
+  shift(direction: ShiftDirection): ISearchBoard | null {
+    const boardClone = this.#board.clone();
+    const { hasMoved } = boardClone.shift(direction);
+
+    return hasMoved
+      ? new GameBoardSearchBoard(boardClone, this.#pieceFactory)
+      : null;
+  }
+
+  placeInEachEmptyCell(value: number): ISearchBoard[] {
+    return this.#board.getEmptyCoordinates().map((coordinate) => {
+      const boardClone = this.#board.clone();
+      boardClone.placeGamePiece(
+        this.#pieceFactory.createPiece(value),
+        coordinate
+      );
+
+      return new GameBoardSearchBoard(boardClone, this.#pieceFactory);
+    });
+  }
+
+  getMaxValue(): number {
+    return this.#board.findMaxValueGamePiece()?.value ?? 0;
+  }
+
+  hasValidMoves(): boolean {
+    return this.#board.hasValidMoves();
+  }
+
+  getHash(): string {
+    return this.#board
+      .serialize()
+      .values.map((row) => row.join(","))
+      .join(";");
+  }
+
+  getHeuristicFeatures(): HeuristicFeatures {
+    const highestValue = this.getMaxValue();
+    const cornerBonus = this.#board
+      .getCornerCoordinates()
+      .some(
+        (coordinate) =>
+          this.#board.getGamePieceByCoordinate(coordinate)?.value ===
+          highestValue
+      )
+      ? 1
+      : 0;
+
+    return {
+      emptyCoordinates: this.#board.getEmptyCoordinates().length,
+      smoothness: this.#evaluateSmoothness(),
+      monotonicity: this.#evaluateMonotonicity(),
+      cornerBonus,
+      highestValue,
+    };
+  }
+
+  /**
+   * Compares values by their rank rather than the values themselves, so
+   * that the heuristics apply to every merge rule. The rank of a classic
+   * value is its log2.
+   */
+  #getRank(value: number): number {
+    return this.#board.getMergeRule().getRank(value);
+  }
+
+  #evaluateSmoothness(): number {
+    const grid = this.#board.getGrid();
+    const rowCount = this.#board.getRowCount();
+    const columnCount = this.#board.getColumnCount();
+
+    let smoothness = 0;
+
+    for (let rowIndex = 0; rowIndex < rowCount; rowIndex += 1) {
+      for (let columnIndex = 0; columnIndex < columnCount; columnIndex += 1) {
+        const gamePiece = grid[rowIndex][columnIndex];
+
+        if (!gamePiece) {
+          continue;
+        }
+
+        const valueLog = this.#getRank(gamePiece.value);
+
+        if (rowIndex + 1 < rowCount && grid[rowIndex + 1][columnIndex]) {
+          smoothness -= Math.abs(
+            valueLog - this.#getRank(grid[rowIndex + 1][columnIndex]!.value)
+          );
+        }
+
+        if (columnIndex + 1 < columnCount && grid[rowIndex][columnIndex + 1]) {
+          smoothness -= Math.abs(
+            valueLog - this.#getRank(grid[rowIndex][columnIndex + 1]!.value)
+          );
+        }
+      }
+    }
+
+    return smoothness;
+  }
+
+  #evaluateMonotonicity(): number {
+    const calcLineMonotonicity = (row: (IGamePiece | null)[]): number => {
+      let inc = 0;
+      let dec = 0;
+
+      for (let i = 0; i < row.length - 1; i++) {
+        const a = row[i];
+        const b2 = row[i + 1];
+        if (a === null || b2 === null) continue;
+
+        const va = this.#getRank(a.value);
+        const vb = this.#getRank(b2.value);
+
+        if (va <= vb) inc += vb - va;
+        if (va >= vb) dec += va - vb;
+      }
+
+      return Math.max(inc, dec);
+    };
+
+    const grid = this.#board.getGrid();
+    const rowCount = this.#board.getRowCount();
+    const columnCount = this.#board.getColumnCount();
+
+    let monotonicity = 0;
+
+    for (let rowIndex = 0; rowIndex < rowCount; rowIndex += 1) {
+      monotonicity += calcLineMonotonicity(grid[rowIndex]);
+    }
+
+    for (let columnIndex = 0; columnIndex < columnCount; columnIndex += 1) {
+      const column = [];
+
+      for (let rowIndex = 0; rowIndex < rowCount; rowIndex += 1) {
+        column.push(grid[rowIndex][columnIndex]);
+      }
+
+      monotonicity += calcLineMonotonicity(column);
+    }
+
+    return monotonicity;
+  }
+}
+
+/**
+ * Creates the fastest `ISearchBoard` that supports the given board and
+ * the pieces that can spawn on it.
+ *
+ * @param {IGameBoard} board - The board to search from.
+ * @param {IGamePieceFactory} pieceFactory - Creates pieces for boards
+ * that are not supported by `Bitboard`, and decides which values spawn.
+ * @returns {ISearchBoard} A `Bitboard` if possible, a `GameBoardSearchBoard` otherwise.
+ */
+export function createSearchBoard(
+  board: IGameBoard,
+  pieceFactory: IGamePieceFactory
+): ISearchBoard {
+  return Bitboard.isSupported(board) &&
+    pieceFactory
+      .getSpawnPolicy()
+      .options.every(({ value }) => Bitboard.isSupportedValue(value))
+    ? Bitboard.fromGameBoard(board)
+    : new GameBoardSearchBoard(board.clone(), pieceFactory);
+}
+
+/**
+ * Places a piece with a value picked by the spawn policy in a random
+ * empty cell. The mode of the policy is not taken into account.
+ *
+ * @param {ISearchBoard} board - The board to place the piece on.
+ * @param {IRandomSource} randomSource - Decides the value and the cell.
+ * @param {SpawnPolicy} [spawnPolicy] - Defaults to a 2, or a 4 with a
+ * probability of 10%.
+ * @returns {ISearchBoard} The board with the piece, or the same board if it is full.
+ */
+export function spawnRandomPiece<T extends ISearchBoard>(
+  board: T,
+  randomSource: IRandomSource,
+  spawnPolicy: SpawnPolicy = defaultSpawnPolicy
+): T {
+  const boards = board.placeInEachEmptyCell(
+    pickSpawnValue(spawnPolicy, randomSource)
+  ) as T[];
+
+  return boards.length > 0
+    ? boards[randomSource.nextInt(0, boards.length - 1)]
+    : board;
+}
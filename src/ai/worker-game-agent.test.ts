@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { ShiftDirection } from "../common/shift-direction";
+import { GameBoard } from "../models/game-board";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import {
+  type GameAgentWorkerRequest,
+  type GameAgentWorkerResponse,
+  WorkerGameAgent,
+} from "./worker-game-agent";
+
+/**
+ * Stands in for a worker: records the requests posted to it, and lets
+ * the test dispatch the events a real worker would.
+ */
+class FakeWorker extends EventTarget {
+  requests: GameAgentWorkerRequest[] = [];
+
+  isTerminated = false;
+
+  postMessage(request: GameAgentWorkerRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.isTerminated = true;
+  }
+
+  respond(response: GameAgentWorkerResponse) {
+    this.dispatchEvent(new MessageEvent("message", { data: response }));
+  }
+
+  fail(message: string) {
+    this.dispatchEvent(Object.assign(new Event("error"), { message }));
+  }
+}
+
+const board = new GameBoard(4, new SeededRandomSource(1));
+
+function createAgent() {
+  const workers: FakeWorker[] = [];
+  const agent = new WorkerGameAgent(
+    () => {
+      const worker = new FakeWorker();
+      workers.push(worker);
+      return worker as unknown as Worker;
+    },
+    {
+      expectimax: { searchDepth: 1, timeBudget: 100, targetValue: 2048 },
+      monteCarlo: { rolloutCount: 1, rolloutLength: 1 },
+      nTupleWeightsUrl: "",
+      seed: 1,
+    }
+  );
+
+  return { agent, workers };
+}
+
+describe("WorkerGameAgent", () => {
+  it("resolves with the recommendation of the worker", async () => {
+    const { agent, workers } = createAgent();
+    const recommendation = agent.recommendNextMove(board);
+
+    workers[0].respond({
+      type: "result",
+      requestId: workers[0].requests[0].requestId,
+      recommendation: {
+        direction: ShiftDirection.Left,
+        evaluation: 1,
+        moveEvaluations: [],
+      },
+    });
+
+    await expect(recommendation).resolves.toBe(ShiftDirection.Left);
+  });
+
+  it("rejects with the error the worker reports", async () => {
+    const { agent, workers } = createAgent();
+    const recommendation = agent.analyzeNextMove(board);
+
+    workers[0].respond({
+      type: "error",
+      requestId: workers[0].requests[0].requestId,
+      message: "Could not load n-tuple-weights.json: 404.",
+    });
+
+    await expect(recommendation).rejects.toThrow(
+      "Could not load n-tuple-weights.json: 404."
+    );
+  });
+
+  it("rejects and replaces a worker that fails", async () => {
+    const { agent, workers } = createAgent();
+    const recommendation = agent.analyzeNextMove(board);
+
+    workers[0].fail("Script could not be loaded");
+
+    await expect(recommendation).rejects.toThrow(
+      "The game agent worker failed: Script could not be loaded."
+    );
+    expect(workers[0].isTerminated).toBe(true);
+
+    agent.analyzeNextMove(board);
+
+    expect(workers).toHaveLength(2);
+  });
+
+  it("rejects when a message of the worker cannot be read", async () => {
+    const { agent, workers } = createAgent();
+    const recommendation = agent.analyzeNextMove(board);
+
+    workers[0].dispatchEvent(new Event("messageerror"));
+
+    await expect(recommendation).rejects.toThrow("could not be read");
+    expect(workers[0].isTerminated).toBe(true);
+  });
+});
@@ -0,0 +1,194 @@
+import { CancellationError } from "../common/cancellation-token";
+import { type ShiftDirection } from "../common/shift-direction";
+import {
+  type IGameBoard,
+  type SerializedGameBoard,
+} from "../models/game-board";
+import {
+  type AsyncGameAgentOptions,
+  type IAsyncGameAgent,
+} from "./async-game-agent";
+import {
+  defaultHeuristicWeights,
+  type GameAgentRecommendation,
+  type HeuristicWeights,
+  type IWeightedGameAgent,
+} from "./game-agent";
+import {
+  defaultGameAgentId,
+  type GameAgentOptions,
+  type ISelectableGameAgent,
+} from "./game-agent-registry";
+
+/**
+ * A message sent to the game agent worker, asking it to analyze a board.
+ */
+export type GameAgentWorkerRequest = {
+  requestId: number;
+  board: SerializedGameBoard;
+  /** The id of the registered agent to analyze the board with. */
+  agentId: string;
+  options: GameAgentOptions;
+};
+
+/**
+ * A message sent by the game agent worker, reporting on a request.
+ */
+export type GameAgentWorkerResponse =
+  | { type: "progress"; requestId: number; progress: number }
+  | {
+      type: "result";
+      requestId: number;
+      recommendation: GameAgentRecommendation | null;
+    }
+  | { type: "error"; requestId: number; message: string };
+
+/**
+ * Runs the registered agents in a Web Worker, so that the page stays
+ * responsive regardless of the search depth.
+ *
+ * Boards are sent to the worker in their serialized form. A cancelled
+ * search cannot be interrupted from the outside, so the worker running it
+ * is terminated and a new one is created for the next request. The same
+ * goes for a worker that fails, e.g. because its script could not be
+ * loaded, which rejects the requests it was running.
+ */
+export class WorkerGameAgent
+  implements IAsyncGameAgent, IWeightedGameAgent, ISelectableGameAgent
+{
+  #createWorker: () => Worker;
+
+  #options: GameAgentOptions;
+
+  #agentId: string;
+
+  #worker: Worker | null = null;
+
+  #nextRequestId = 1;
+
+  /**
+   * @param {() => Worker} createWorker - Creates a worker running `game-agent.worker.ts`.
+   * @param {GameAgentOptions} options - The settings of the agents running in the worker.
+   * @param {string} agentId - The id of the registered agent to start with.
+   */
+  constructor(
+    createWorker: () => Worker,
+    options: GameAgentOptions,
+    agentId = defaultGameAgentId
+  ) {
+    this.#createWorker = createWorker;
+    this.#options = options;
+    this.#agentId = agentId;
+  }
+
+  getAgentId(): string {
+    return this.#agentId;
+  }
+
+  /**
+   * Applies to the analyses requested from now on.
+   */
+  setAgentId(agentId: string) {
+    this.#agentId = agentId;
+  }
+
+  getWeights(): HeuristicWeights {
+    return this.#options.expectimax.weights ?? defaultHeuristicWeights;
+  }
+
+  /**
+   * Applies to the analyses of the expectimax agent requested from now on.
+   */
+  setWeights(weights: HeuristicWeights) {
+    this.#options = {
+      ...this.#options,
+      expectimax: { ...this.#options.expectimax, weights },
+    };
+  }
+
+  async recommendNextMove(
+    board: IGameBoard,
+    options?: AsyncGameAgentOptions
+  ): Promise<ShiftDirection | null> {
+    return (await this.analyzeNextMove(board, options))?.direction ?? null;
+  }
+
+  analyzeNextMove(
+    board: IGameBoard,
+    options?: AsyncGameAgentOptions
+  ): Promise<GameAgentRecommendation | null> {
+    options?.cancellationToken?.throwIfCancelled();
+
+    const worker = (this.#worker ??= this.#createWorker());
+    const requestId = this.#nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      const cleanUp = () => {
+        worker.removeEventListener("message", onMessage);
+        worker.removeEventListener("error", onError);
+        worker.removeEventListener("messageerror", onError);
+        unregisterCancellation?.();
+      };
+
+      const discardWorker = () => {
+        worker.terminate();
+
+        if (this.#worker === worker) {
+          this.#worker = null;
+        }
+      };
+
+      const onMessage = (event: MessageEvent<GameAgentWorkerResponse>) => {
+        const response = event.data;
+
+        if (response.requestId !== requestId) return;
+
+        switch (response.type) {
+          case "progress":
+            options?.onProgress?.(response.progress);
+            break;
+          case "result":
+            cleanUp();
+            resolve(response.recommendation);
+            break;
+          case "error":
+            cleanUp();
+            reject(new Error(response.message));
+            break;
+        }
+      };
+
+      const onError = (event: Event) => {
+        cleanUp();
+        discardWorker();
+        reject(
+          new Error(
+            event.type === "messageerror"
+              ? "The game agent worker sent a message that could not be read."
+              : `The game agent worker failed: ${
+                  (event as ErrorEvent).message || "unknown error"
+                }.`
+          )
+        );
+      };
+
+      const unregisterCancellation = options?.cancellationToken?.onCancel(
+        () => {
+          cleanUp();
+          discardWorker();
+          reject(new CancellationError());
+        }
+      );
+
+      worker.addEventListener("message", onMessage);
+      worker.addEventListener("error", onError);
+      worker.addEventListener("messageerror", onError);
+      worker.postMessage({
+        requestId,
+        board: board.serialize(),
+        agentId: this.#agentId,
+        options: this.#options,
+      } satisfies GameAgentWorkerRequest);
+    });
+  }
+}
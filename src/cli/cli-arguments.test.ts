@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseInteger,
+  parseNonNegativeInt,
+  parsePositiveInt,
+  parsePositiveNumber,
+} from "./cli-arguments";
+
+describe("parseInteger", () => {
+  it("parses integers, negative ones included", () => {
+    expect(parseInteger("seed", "42")).toBe(42);
+    expect(parseInteger("seed", "-7")).toBe(-7);
+  });
+
+  it.each(["", " ", "abc", "1.5"])("rejects %j", (value) => {
+    expect(() => parseInteger("seed", value)).toThrow(
+      `--seed must be an integer, got "${value}".`
+    );
+  });
+});
+
+describe("parsePositiveInt", () => {
+  it("parses positive integers", () => {
+    expect(parsePositiveInt("games", "10")).toBe(10);
+  });
+
+  it.each(["0", "-1", "1.5", "abc"])("rejects %j", (value) => {
+    expect(() => parsePositiveInt("games", value)).toThrow(
+      `--games must be a positive integer, got "${value}".`
+    );
+  });
+});
+
+describe("parseNonNegativeInt", () => {
+  it("parses 0 and positive integers", () => {
+    expect(parseNonNegativeInt("precision", "0")).toBe(0);
+    expect(parseNonNegativeInt("precision", "3")).toBe(3);
+  });
+
+  it.each(["", "-1", "0.5", "abc"])("rejects %j", (value) => {
+    expect(() => parseNonNegativeInt("precision", value)).toThrow(
+      `--precision must be a non-negative integer, got "${value}".`
+    );
+  });
+});
+
+describe("parsePositiveNumber", () => {
+  it("parses positive numbers", () => {
+    expect(parsePositiveNumber("step-size", "0.3")).toBe(0.3);
+  });
+
+  it.each(["0", "-0.1", "", "abc", "Infinity"])("rejects %j", (value) => {
+    expect(() => parsePositiveNumber("step-size", value)).toThrow(
+      `--step-size must be a positive number, got "${value}".`
+    );
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Parsers of the option values the command-line tools accept. Each one
+ * names the option in its error, so that a typo is reported before any
+ * game is played rather than showing up as `NaN` in the results.
+ */
+
+/**
+ * @param {string} name - The option, without the leading dashes.
+ * @param {string} value - The value given on the command line.
+ * @returns {number} The value as a number.
+ * @throws {Error} If the value is not an integer.
+ */
+export function parseInteger(name: string, value: string): number {
+  const parsed = Number(value);
+
+  if (value.trim() === "" || !Number.isInteger(parsed)) {
+    throw new Error(`--${name} must be an integer, got "${value}".`);
+  }
+
+  return parsed;
+}
+
+/**
+ * @param {string} name - The option, without the leading dashes.
+ * @param {string} value - The value given on the command line.
+ * @returns {number} The value as a number.
+ * @throws {Error} If the value is not an integer of at least 1.
+ */
+export function parsePositiveInt(name: string, value: string): number {
+  const parsed = Number(value);
+
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--${name} must be a positive integer, got "${value}".`);
+  }
+
+  return parsed;
+}
+
+/**
+ * @param {string} name - The option, without the leading dashes.
+ * @param {string} value - The value given on the command line.
+ * @returns {number} The value as a number.
+ * @throws {Error} If the value is not an integer of at least 0.
+ */
+export function parseNonNegativeInt(name: string, value: string): number {
+  const parsed = Number(value);
+
+  if (value.trim() === "" || !Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(
+      `--${name} must be a non-negative integer, got "${value}".`
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * @param {string} name - The option, without the leading dashes.
+ * @param {string} value - The value given on the command line.
+ * @returns {number} The value as a number.
+ * @throws {Error} If the value is not a number greater than 0.
+ */
+export function parsePositiveNumber(name: string, value: string): number {
+  const parsed = Number(value);
+
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive number, got "${value}".`);
+  }
+
+  return parsed;
+}
@@ -0,0 +1,202 @@
+/// <reference types="node" />
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { gameAgentRegistry } from "../ai/game-agent-registry";
+import { type GameBoardShape } from "../models/game-board";
+import {
+  getMergeRule,
+  type IMergeRule,
+  mergeRules,
+} from "../models/merge-rule";
+import { type SpawnPolicy, validateSpawnPolicy } from "../models/spawn-policy";
+import {
+  formatGameResultsAsCsv,
+  type GameSimulationResult,
+  simulateGame,
+  summarizeGames,
+} from "../simulation/game-simulation";
+import { parseInteger, parsePositiveInt } from "./cli-arguments";
+
+const agentIds = gameAgentRegistry
+  .getAll()
+  .map(({ id }) => id)
+  .join(", ");
+
+const usage = `Plays seeded games with an agent and reports how well it did.
+
+Usage: npm run simulate -- [options]
+
+Options:
+  --agent <id>             One of ${agentIds} (default: expectimax)
+  --games <n>              Games to play (default: 100)
+  --seed <n>               The seed of the first game; games use consecutive seeds (default: 1)
+  --board-size <n|RxC>     A square size, or rows x columns such as 3x5 (default: 4)
+  --merge-rule <id>        One of ${Object.keys(mergeRules).join(", ")} (default: classic)
+  --win-value <n>          (default: the win value of the merge rule, 2048 for classic)
+  --depth <n>              Expectimax search depth (default: 2)
+  --time-budget <ms>       Expectimax milliseconds per move (default: unlimited)
+  --rollouts <n>           Monte Carlo rollouts per move (default: 40)
+  --rollout-length <n>     Monte Carlo moves per rollout (default: 40)
+  --n-tuple-weights <file> (default: public/agents/n-tuple-weights.json)
+  --spawn-values <list>    Values of new pieces as value:probability pairs (default: those of the merge rule, 2:0.9,4:0.1 for classic)
+  --pieces-per-move <n>    (default: 1)
+  --spawn-mode <name>      random, or evil to spawn the worst piece for the agent (default: random)
+  --format <name>          json or csv (default: json)
+  --out <file>             Write the report to this file instead of stdout
+  --help                   Show this message
+
+The JSON report holds the summary and every game; the CSV report holds
+one row per game. Progress and the summary are written to stderr.`;
+
+const { values: args } = parseArgs({
+  options: {
+    agent: { type: "string", default: "expectimax" },
+    games: { type: "string", default: "100" },
+    seed: { type: "string", default: "1" },
+    "board-size": { type: "string", default: "4" },
+    "merge-rule": { type: "string", default: "classic" },
+    "win-value": { type: "string" },
+    depth: { type: "string", default: "2" },
+    "time-budget": { type: "string" },
+    rollouts: { type: "string", default: "40" },
+    "rollout-length": { type: "string", default: "40" },
+    "n-tuple-weights": {
+      type: "string",
+      default: "public/agents/n-tuple-weights.json",
+    },
+    "spawn-values": { type: "string" },
+    "pieces-per-move": { type: "string", default: "1" },
+    "spawn-mode": { type: "string", default: "random" },
+    format: { type: "string", default: "json" },
+    out: { type: "string" },
+    help: { type: "boolean", default: false },
+  },
+});
+
+function parseBoardSize(value: string): number | GameBoardShape {
+  const [rows, columns] = value.split("x");
+
+  if (columns === undefined) return parsePositiveInt("board-size", value);
+
+  return {
+    rowCount: parsePositiveInt("board-size", rows),
+    columnCount: parsePositiveInt("board-size", columns),
+  };
+}
+
+function parseSpawnPolicy(mergeRule: IMergeRule): SpawnPolicy {
+  const mode = args["spawn-mode"];
+
+  if (mode !== "random" && mode !== "evil") {
+    throw new Error(`--spawn-mode must be random or evil, got "${mode}".`);
+  }
+
+  const spawnPolicy: SpawnPolicy = {
+    options: args["spawn-values"]
+      ? args["spawn-values"].split(",").map((pair) => {
+          const [value, probability] = pair.split(":");
+
+          return { value: Number(value), probability: Number(probability) };
+        })
+      : mergeRule.spawnOptions,
+    piecesPerMove: parsePositiveInt("pieces-per-move", args["pieces-per-move"]),
+    mode,
+  };
+
+  validateSpawnPolicy(spawnPolicy);
+
+  return spawnPolicy;
+}
+
+async function main() {
+  if (args.help) {
+    console.log(usage);
+    return;
+  }
+
+  if (args.format !== "json" && args.format !== "csv") {
+    throw new Error(`--format must be json or csv, got "${args.format}".`);
+  }
+
+  const games = parsePositiveInt("games", args.games);
+  const firstSeed = parseInteger("seed", args.seed);
+  const mergeRule = getMergeRule(args["merge-rule"]);
+  const gameWinValue = args["win-value"]
+    ? parsePositiveInt("win-value", args["win-value"])
+    : mergeRule.winValue;
+  const spawnPolicy = parseSpawnPolicy(mergeRule);
+  const options = {
+    boardSize: parseBoardSize(args["board-size"]),
+    gameWinValue,
+    startingPieceCount: 2,
+    mergeRule,
+    spawnPolicy,
+  };
+  const agent = await gameAgentRegistry.get(args.agent).create({
+    options: {
+      expectimax: {
+        searchDepth: parsePositiveInt("depth", args.depth),
+        targetValue: gameWinValue,
+        ...(args["time-budget"] && {
+          timeBudget: parsePositiveInt("time-budget", args["time-budget"]),
+        }),
+      },
+      monteCarlo: {
+        rolloutCount: parsePositiveInt("rollouts", args.rollouts),
+        rolloutLength: parsePositiveInt(
+          "rollout-length",
+          args["rollout-length"]
+        ),
+      },
+      nTupleWeightsUrl: args["n-tuple-weights"],
+      seed: firstSeed,
+      spawnPolicy,
+    },
+    loadJson: async (path) => JSON.parse(readFileSync(path, "utf8")),
+  });
+  const results: GameSimulationResult[] = [];
+
+  for (let index = 0; index < games; index += 1) {
+    const result = simulateGame(agent, firstSeed + index, options);
+
+    results.push(result);
+    console.error(
+      `[${index + 1}/${games}] seed ${result.seed}: score ${result.score}, ` +
+        `highest piece ${result.maxValue}, ${result.moveCount} moves` +
+        (result.won ? " (won)" : "")
+    );
+  }
+
+  const summary = summarizeGames(results);
+  const report =
+    args.format === "csv"
+      ? formatGameResultsAsCsv(results)
+      : JSON.stringify(
+          { agent: args.agent, options, summary, games: results },
+          null,
+          2
+        );
+
+  console.error(
+    `${args.agent}: win rate ${(summary.winRate * 100).toFixed(0)}%, ` +
+      `average score ${summary.averageScore.toFixed(0)}, ` +
+      `${summary.averageMoveCount.toFixed(0)} moves per game, ` +
+      `${summary.averageMoveTime.toFixed(2)} ms per move`
+  );
+  console.error(
+    `Highest pieces: ${Object.entries(summary.maxValueDistribution)
+      .map(([maxValue, count]) => `${maxValue} × ${count}`)
+      .join(", ")}`
+  );
+
+  if (args.out) {
+    writeFileSync(args.out, `${report}\n`);
+  } else {
+    console.log(report);
+  }
+}
+
+main().catch((error) => {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+});
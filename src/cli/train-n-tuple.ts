@@ -0,0 +1,103 @@
+/// <reference types="node" />
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { defaultNTuples, NTupleNetwork } from "../ai/n-tuple-network";
+import {
+  type NTupleTrainingGame,
+  trainNTupleNetwork,
+} from "../ai/n-tuple-training";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import {
+  parseInteger,
+  parseNonNegativeInt,
+  parsePositiveInt,
+  parsePositiveNumber,
+} from "./cli-arguments";
+
+const usage = `Trains an n-tuple network for the n-tuple agent by self-play.
+
+Usage: npm run train-n-tuple -- --out <file> [options]
+
+Options:
+  --out <file>            JSON file the trained network is written to
+  --games <n>             Training games to play (default: 1000)
+  --learning-rate <x>     (default: 0.1)
+  --seed <n>              Seed of the spawned pieces (default: 1)
+  --weights <file>        JSON file with a network to continue training
+  --report-every <n>      Games between progress reports (default: 100)
+  --precision <n>         Decimals the weights are written with (default: 0)
+  --help                  Show this message`;
+
+const { values: args } = parseArgs({
+  options: {
+    out: { type: "string" },
+    games: { type: "string", default: "1000" },
+    "learning-rate": { type: "string", default: "0.1" },
+    seed: { type: "string", default: "1" },
+    weights: { type: "string" },
+    "report-every": { type: "string", default: "100" },
+    precision: { type: "string", default: "0" },
+    help: { type: "boolean", default: false },
+  },
+});
+
+function main() {
+  if (args.help) {
+    console.log(usage);
+    return;
+  }
+
+  if (!args.out) {
+    throw new Error(`--out is required.\n\n${usage}`);
+  }
+
+  const reportEvery = parsePositiveInt("report-every", args["report-every"]);
+  // Weights are on the scale of the score, so whole numbers lose little
+  // and keep the file small.
+  const precision = parseNonNegativeInt("precision", args.precision);
+  const learningRate = parsePositiveNumber(
+    "learning-rate",
+    args["learning-rate"]
+  );
+  const seed = parseInteger("seed", args.seed);
+  const network = args.weights
+    ? NTupleNetwork.deserialize(JSON.parse(readFileSync(args.weights, "utf8")))
+    : new NTupleNetwork(defaultNTuples);
+  let reportedGames: NTupleTrainingGame[] = [];
+
+  trainNTupleNetwork(
+    network,
+    {
+      games: parsePositiveInt("games", args.games),
+      learningRate,
+    },
+    new SeededRandomSource(seed),
+    (trainingGame) => {
+      reportedGames.push(trainingGame);
+
+      if (reportedGames.length < reportEvery) return;
+
+      const averageScore =
+        reportedGames.reduce((sum, { score }) => sum + score, 0) /
+        reportedGames.length;
+      const maxValue = Math.max(
+        ...reportedGames.map(({ maxValue }) => maxValue)
+      );
+
+      console.error(
+        `[${trainingGame.game}/${args.games}] average score ${averageScore.toFixed(0)}, ` +
+          `highest piece ${maxValue}`
+      );
+      reportedGames = [];
+    }
+  );
+
+  writeFileSync(args.out, `${JSON.stringify(network.serialize(precision))}\n`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+}
@@ -0,0 +1,137 @@
+/// <reference types="node" />
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  defaultHeuristicWeights,
+  type HeuristicWeights,
+} from "../ai/game-agent";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import {
+  tuneWeights,
+  type WeightTuningCandidate,
+  type WeightTuningObjective,
+} from "../simulation/weight-tuning";
+import {
+  parseInteger,
+  parsePositiveInt,
+  parsePositiveNumber,
+} from "./cli-arguments";
+
+const usage = `Searches for GameAgent heuristic weights by playing seeded games.
+
+Usage: npm run tune -- [options]
+
+Options:
+  --games <n>          Games every candidate is evaluated on (default: 10)
+  --seed <n>           The seed of the first game; games use consecutive seeds (default: 1)
+  --iterations <n>     Candidates to evaluate after the initial weights (default: 20)
+  --objective <name>   averageScore or winRate (default: averageScore)
+  --step-size <x>      Spread of the random changes to the weights (default: 0.3)
+  --weights <file>     JSON file with the weights to start from (default: built-in weights)
+  --depth <n>          Agent search depth (default: 2)
+  --board-size <n>     (default: 4)
+  --win-value <n>      (default: 2048)
+  --out <file>         Also write the best weights to this JSON file
+  --help               Show this message
+
+Progress is written to stderr, the best weights to stdout as JSON.`;
+
+const { values: args } = parseArgs({
+  options: {
+    games: { type: "string", default: "10" },
+    seed: { type: "string", default: "1" },
+    iterations: { type: "string", default: "20" },
+    objective: { type: "string", default: "averageScore" },
+    "step-size": { type: "string", default: "0.3" },
+    weights: { type: "string" },
+    depth: { type: "string", default: "2" },
+    "board-size": { type: "string", default: "4" },
+    "win-value": { type: "string", default: "2048" },
+    out: { type: "string" },
+    help: { type: "boolean", default: false },
+  },
+});
+
+function readWeights(path: string): HeuristicWeights {
+  const weights = JSON.parse(readFileSync(path, "utf8"));
+
+  for (const feature of Object.keys(defaultHeuristicWeights)) {
+    if (!Number.isFinite(weights[feature])) {
+      throw new Error(`${path} is missing a numeric "${feature}" weight.`);
+    }
+  }
+
+  return weights;
+}
+
+function formatCandidate({ summary }: WeightTuningCandidate): string {
+  return (
+    `average score ${summary.averageScore.toFixed(0)}, ` +
+    `win rate ${(summary.winRate * 100).toFixed(0)}%`
+  );
+}
+
+function main() {
+  if (args.help) {
+    console.log(usage);
+    return;
+  }
+
+  if (args.objective !== "averageScore" && args.objective !== "winRate") {
+    throw new Error(
+      `--objective must be averageScore or winRate, got "${args.objective}".`
+    );
+  }
+
+  const games = parsePositiveInt("games", args.games);
+  const firstSeed = parseInteger("seed", args.seed);
+  const stepSize = parsePositiveNumber("step-size", args["step-size"]);
+  const gameWinValue = parsePositiveInt("win-value", args["win-value"]);
+  const randomSource = new SeededRandomSource(firstSeed);
+
+  const best = tuneWeights(
+    {
+      initialWeights: args.weights
+        ? readWeights(args.weights)
+        : defaultHeuristicWeights,
+      iterations: parsePositiveInt("iterations", args.iterations),
+      seeds: Array.from({ length: games }, (_, index) => firstSeed + index),
+      objective: args.objective as WeightTuningObjective,
+      stepSize,
+      agentConfig: {
+        searchDepth: parsePositiveInt("depth", args.depth),
+        targetValue: gameWinValue,
+      },
+      game: {
+        boardSize: parsePositiveInt("board-size", args["board-size"]),
+        gameWinValue,
+        startingPieceCount: 2,
+      },
+    },
+    new DefaultGamePieceFactory(randomSource),
+    randomSource,
+    (iteration, candidate, best) => {
+      console.error(
+        `[${iteration}/${args.iterations}] ${formatCandidate(candidate)}` +
+          (candidate === best ? " (new best)" : "")
+      );
+    }
+  );
+
+  const output = JSON.stringify(best.weights, null, 2);
+
+  console.error(`Best: ${formatCandidate(best)}`);
+  console.log(output);
+
+  if (args.out) {
+    writeFileSync(args.out, `${output}\n`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+}
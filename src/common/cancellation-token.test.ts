@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  CancellationError,
+  CancellationTokenSource,
+} from "./cancellation-token";
+
+describe("CancellationTokenSource", () => {
+  it("cancels its token", () => {
+    const source = new CancellationTokenSource();
+
+    source.cancel();
+
+    expect(source.token.isCancelled).toBe(true);
+    expect(() => source.token.throwIfCancelled()).toThrow(CancellationError);
+  });
+
+  it("calls the registered handlers once", () => {
+    const source = new CancellationTokenSource();
+    const handler = vi.fn();
+
+    source.token.onCancel(handler);
+    source.cancel();
+    source.cancel();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not call unregistered handlers", () => {
+    const source = new CancellationTokenSource();
+    const handler = vi.fn();
+
+    source.token.onCancel(handler)();
+    source.cancel();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("calls handlers registered after cancellation immediately", () => {
+    const source = new CancellationTokenSource();
+    const handler = vi.fn();
+
+    source.cancel();
+    source.token.onCancel(handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
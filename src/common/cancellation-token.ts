@@ -0,0 +1,88 @@
+/**
+ * Thrown by cancellable operations when their token has been cancelled.
+ */
+export class CancellationError extends Error {
+  constructor(message = "The operation was cancelled.") {
+    super(message);
+    this.name = "CancellationError";
+  }
+}
+
+/**
+ * Lets the caller of a long-running operation signal that its result is
+ * no longer needed. Tokens are created and cancelled through a
+ * `CancellationTokenSource`.
+ */
+export class CancellationToken {
+  #isCancelled = false;
+
+  #handlers = new Set<() => void>();
+
+  /**
+   * @param {(cancel: () => void) => void} executor - Receives the function
+   * that cancels the token.
+   */
+  constructor(executor: (cancel: () => void) => void) {
+    executor(() => this.#cancel());
+  }
+
+  get isCancelled(): boolean {
+    return this.#isCancelled;
+  }
+
+  /**
+   * Registers a handler that is called once the token is cancelled,
+   * or immediately if it already has been.
+   * @returns {() => void} A function that unregisters the handler.
+   */
+  onCancel(handler: () => void): () => void {
+    if (this.#isCancelled) {
+      handler();
+      return () => {};
+    }
+
+    this.#handlers.add(handler);
+
+    return () => this.#handlers.delete(handler);
+  }
+
+  /**
+   * @throws {CancellationError} If the token has been cancelled.
+   */
+  throwIfCancelled() {
+    if (this.#isCancelled) {
+      throw new CancellationError();
+    }
+  }
+
+  #cancel() {
+    if (this.#isCancelled) return;
+
+    this.#isCancelled = true;
+
+    for (const handler of this.#handlers) {
+      handler();
+    }
+
+    this.#handlers.clear();
+  }
+}
+
+export class CancellationTokenSource {
+  readonly token: CancellationToken;
+
+  #cancel: () => void = () => {};
+
+  constructor() {
+    this.token = new CancellationToken((cancel) => {
+      this.#cancel = cancel;
+    });
+  }
+
+  /**
+   * Cancels the token of this source. Calling it more than once has no effect.
+   */
+  cancel() {
+    this.#cancel();
+  }
+}
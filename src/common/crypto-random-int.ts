@@ -17,7 +17,7 @@ export function cryptoRandomInt(min: number, max: number) {
   let random32;
   do {
     const array = new Uint32Array(1);
-    window.crypto.getRandomValues(array);
+    crypto.getRandomValues(array);
     random32 = array[0]!;
   } while (random32 >= maxValid);
 
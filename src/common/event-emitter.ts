@@ -0,0 +1,63 @@
+/**
+ * A listener receiving the payload of an event.
+ */
+export type EventHandler<TPayload> = (payload: TPayload) => void;
+
+/**
+ * A minimal, DOM-free and strongly typed event emitter.
+ * The `TEvents` type maps every event name to the type of its payload.
+ */
+export class EventEmitter<TEvents extends Record<string, unknown>> {
+  #listeners = new Map<keyof TEvents, Set<EventHandler<never>>>();
+
+  /**
+   * Subscribes a listener to an event.
+   *
+   * @param {keyof TEvents} event - The name of the event.
+   * @param {EventHandler} listener - Called every time the event is emitted.
+   * @returns {() => void} A function that unsubscribes the listener.
+   */
+  on<TEvent extends keyof TEvents>(
+    event: TEvent,
+    listener: EventHandler<TEvents[TEvent]>
+  ): () => void {
+    let listeners = this.#listeners.get(event);
+
+    if (!listeners) {
+      listeners = new Set();
+      this.#listeners.set(event, listeners);
+    }
+
+    listeners.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Unsubscribes a listener from an event.
+   *
+   * @param {keyof TEvents} event - The name of the event.
+   * @param {EventHandler} listener - The listener passed to `on`.
+   */
+  off<TEvent extends keyof TEvents>(
+    event: TEvent,
+    listener: EventHandler<TEvents[TEvent]>
+  ) {
+    this.#listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Calls every listener subscribed to the event with the provided payload.
+   *
+   * @param {keyof TEvents} event - The name of the event.
+   * @param {TEvents[keyof TEvents]} payload - The payload passed to the listeners.
+   */
+  protected emit<TEvent extends keyof TEvents>(
+    event: TEvent,
+    payload: TEvents[TEvent]
+  ) {
+    for (const listener of this.#listeners.get(event) ?? []) {
+      (listener as EventHandler<TEvents[TEvent]>)(payload);
+    }
+  }
+}
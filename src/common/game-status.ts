@@ -2,4 +2,19 @@ export enum GameStatus {
   InProgress,
   Lost,
   Won,
-}
\ No newline at end of file
+  /** The game has been won, and the player chose to keep playing. */
+  KeepPlaying,
+  /** The time of a time attack has run out. */
+  TimeUp,
+  /** Every move of a limited-moves challenge has been played. */
+  OutOfMoves,
+}
+
+/**
+ * @param {GameStatus|null} status - The status of a game, or `null` if it
+ * has not been started yet.
+ * @returns {boolean} `true` if moves can be played in a game with this status.
+ */
+export function isGameActive(status: GameStatus | null): boolean {
+  return status === GameStatus.InProgress || status === GameStatus.KeepPlaying;
+}
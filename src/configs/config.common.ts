@@ -1,7 +1,181 @@
+import { cryptoRandomInt } from "../common/crypto-random-int";
+import {
+  type ChallengeMode,
+  classicChallengeMode,
+} from "../models/challenge-mode";
+import { getDailyChallengeDate } from "../models/daily-challenge";
+import { type GameBoardShape, type GridCoordinate } from "../models/game-board";
+import { getMergeRule } from "../models/merge-rule";
+import { defaultSpawnPolicy, type SpawnPolicy } from "../models/spawn-policy";
+import { type IRandomSource } from "../random/random-source";
+import { SeededRandomSource } from "../random/seeded-random-source";
+
+const randomSeed = parseInt(import.meta.env.VITE_RANDOM_SEED);
+
+// Seeded even without a configured seed, since daily challenges reseed it.
+const randomSource: IRandomSource = new SeededRandomSource(
+  Number.isNaN(randomSeed) ? cryptoRandomInt(0, 0xffffffff) : randomSeed
+);
+
+/**
+ * Parses blocked cells listed as `row:column` pairs separated by commas,
+ * e.g. `1:1,2:2`. An empty list leaves every cell open.
+ */
+function parseBlockedCoordinates(value = ""): GridCoordinate[] {
+  return value
+    .split(",")
+    .map((pair) => pair.trim())
+    .filter((pair) => pair !== "")
+    .map((pair) => {
+      const [rowIndex, columnIndex] = pair
+        .split(":")
+        .map((part) => parseInt(part));
+      return { rowIndex, columnIndex };
+    });
+}
+
+// Square boards used to be configured with a single grid size, which
+// still applies to both counts when they are not set.
+const gameBoardGridSize =
+  parseInt(import.meta.env.VITE_GAME_BOARD_GRID_SIZE ?? "") || 4;
+
+const gameBoardShape: GameBoardShape = {
+  rowCount:
+    parseInt(import.meta.env.VITE_GAME_BOARD_ROW_COUNT ?? "") ||
+    gameBoardGridSize,
+  columnCount:
+    parseInt(import.meta.env.VITE_GAME_BOARD_COLUMN_COUNT ?? "") ||
+    gameBoardGridSize,
+  blockedCoordinates: parseBlockedCoordinates(
+    import.meta.env.VITE_GAME_BOARD_BLOCKED_CELLS
+  ),
+};
+
+/**
+ * Parses the values of new pieces listed as `value:probability` pairs
+ * separated by commas, e.g. `2:0.9,4:0.1`.
+ */
+function parseSpawnOptions(value: string): SpawnPolicy["options"] {
+  return value.split(",").map((pair) => {
+    const [spawnValue, probability] = pair.split(":").map(parseFloat);
+    return { value: spawnValue, probability };
+  });
+}
+
+const mergeRule = getMergeRule(import.meta.env.VITE_MERGE_RULE || "classic");
+
+const { VITE_SPAWN_VALUES, VITE_SPAWN_PIECES_PER_MOVE, VITE_SPAWN_MODE } =
+  import.meta.env;
+
+// Every setting is optional, and falls back to the rules of the variant.
+const spawnPolicy: SpawnPolicy = {
+  options: VITE_SPAWN_VALUES
+    ? parseSpawnOptions(VITE_SPAWN_VALUES)
+    : mergeRule.spawnOptions,
+  piecesPerMove: VITE_SPAWN_PIECES_PER_MOVE
+    ? parseInt(VITE_SPAWN_PIECES_PER_MOVE)
+    : defaultSpawnPolicy.piecesPerMove,
+  mode: VITE_SPAWN_MODE || defaultSpawnPolicy.mode,
+};
+
+/**
+ * Parses a setting that has to be a positive number, and falls back to
+ * `defaultValue` when the setting is not set.
+ * @throws {Error} If the setting is set to anything but a positive number.
+ */
+function parsePositiveNumber(
+  name: string,
+  value: string | undefined,
+  defaultValue: number
+): number {
+  if (!value) return defaultValue;
+
+  const number = Number(value);
+
+  if (!(number > 0)) {
+    throw new Error(`${name} must be a positive number, got "${value}".`);
+  }
+
+  return number;
+}
+
+// The classic game comes first, to be listed first in the challenge panel.
+const challengeModes: ChallengeMode[] = [
+  classicChallengeMode,
+  {
+    id: "time-attack",
+    timeLimit:
+      (parseInt(import.meta.env.VITE_TIME_ATTACK_SECONDS ?? "") || 60) * 1000,
+  },
+  {
+    id: "limited-moves",
+    moveLimit: parseInt(import.meta.env.VITE_LIMITED_MOVES_COUNT ?? "") || 100,
+  },
+  {
+    id: "fewest-moves",
+    targetValue:
+      parseInt(import.meta.env.VITE_FEWEST_MOVES_TARGET_VALUE ?? "") || 256,
+  },
+  // The day is settled again when the challenge is started.
+  { id: "daily", date: getDailyChallengeDate(new Date()) },
+];
+
 export default {
-  gameBoardGridSize: parseInt(import.meta.env.VITE_GAME_BOARD_GRID_SIZE),
+  gameBoardShape,
+  mergeRule,
+  spawnPolicy,
+  challengeModes,
   gameBoardId: import.meta.env.VITE_GAME_BOARD_ID,
-  gameWinValue: parseInt(import.meta.env.VITE_GAME_WIN_VALUE),
+  gameWinValue:
+    parseInt(import.meta.env.VITE_GAME_WIN_VALUE) || mergeRule.winValue,
   messageBoardId: import.meta.env.VITE_MESSAGE_BOARD_ID,
+  scoreBoardId: import.meta.env.VITE_SCORE_BOARD_ID,
+  bestScoreStorageKey: import.meta.env.VITE_BEST_SCORE_STORAGE_KEY,
+  savedGameStorageKey: import.meta.env.VITE_SAVED_GAME_STORAGE_KEY,
+  challengeResultsStorageKey: import.meta.env
+    .VITE_CHALLENGE_RESULTS_STORAGE_KEY,
   gameAgentSearchDepth: parseInt(import.meta.env.VITE_GAME_AGENT_SEARCH_DEPTH),
+  gameAgentTimeBudget: parsePositiveNumber(
+    "VITE_GAME_AGENT_TIME_BUDGET",
+    import.meta.env.VITE_GAME_AGENT_TIME_BUDGET,
+    200
+  ),
+  monteCarloRolloutCount: parseInt(
+    import.meta.env.VITE_MONTE_CARLO_ROLLOUT_COUNT
+  ),
+  monteCarloRolloutLength: parseInt(
+    import.meta.env.VITE_MONTE_CARLO_ROLLOUT_LENGTH
+  ),
+  nTupleWeightsUrl: import.meta.env.VITE_N_TUPLE_WEIGHTS_URL,
+  gameHistoryLimit: parsePositiveNumber(
+    "VITE_GAME_HISTORY_LIMIT",
+    import.meta.env.VITE_GAME_HISTORY_LIMIT,
+    100
+  ),
+  swipeMinDistance: parsePositiveNumber(
+    "VITE_SWIPE_MIN_DISTANCE",
+    import.meta.env.VITE_SWIPE_MIN_DISTANCE,
+    30
+  ),
+  swipeAngleTolerance: parsePositiveNumber(
+    "VITE_SWIPE_ANGLE_TOLERANCE",
+    import.meta.env.VITE_SWIPE_ANGLE_TOLERANCE,
+    30
+  ),
+  gamepadStickThreshold: parsePositiveNumber(
+    "VITE_GAMEPAD_STICK_THRESHOLD",
+    import.meta.env.VITE_GAMEPAD_STICK_THRESHOLD,
+    0.5
+  ),
+  keyBindingsId: import.meta.env.VITE_KEY_BINDINGS_ID,
+  keyBindingsStorageKey: import.meta.env.VITE_KEY_BINDINGS_STORAGE_KEY,
+  heuristicWeightsId: import.meta.env.VITE_HEURISTIC_WEIGHTS_ID,
+  heuristicWeightsStorageKey: import.meta.env
+    .VITE_HEURISTIC_WEIGHTS_STORAGE_KEY,
+  autoplayMovesPerSecond: parsePositiveNumber(
+    "VITE_AUTOPLAY_MOVES_PER_SECOND",
+    import.meta.env.VITE_AUTOPLAY_MOVES_PER_SECOND,
+    4
+  ),
+  randomSource,
 };
@@ -1,7 +1,7 @@
-import { cryptoRandomInt } from "../common/crypto-random-int";
 import configCommon from "./config.common";
 
 export default {
   ...configCommon,
-  startingPieceCount: cryptoRandomInt(2, 6),
+  startingPieceCount: configCommon.randomSource.nextInt(2, 6),
+  showHeuristicWeightsPanel: false,
 };
@@ -0,0 +1,38 @@
+import {
+  type GameAgentRegistration,
+  type ISelectableGameAgent,
+} from "../ai/game-agent-registry";
+import { type IAgentSelectorRenderer } from "../renderers/agent-selector-renderer";
+
+/**
+ * Lets the player choose which of the registered agents gives hints and
+ * plays in autoplay mode. The choice applies to the next analysis.
+ */
+export class AgentSelectorController {
+  #boundOnChange: (event: Event) => void;
+
+  constructor(
+    private readonly agent: ISelectableGameAgent,
+    private readonly renderer: IAgentSelectorRenderer,
+    private readonly registrations: GameAgentRegistration[],
+    private readonly selectEl: HTMLElement | null
+  ) {
+    this.#boundOnChange = this.#onChange.bind(this);
+  }
+
+  init() {
+    this.selectEl?.addEventListener("change", this.#boundOnChange);
+    this.renderer.renderAgentSelector(
+      this.registrations,
+      this.agent.getAgentId()
+    );
+  }
+
+  #onChange(event: Event) {
+    const { value } = event.target as HTMLSelectElement;
+
+    if (this.registrations.some(({ id }) => id === value)) {
+      this.agent.setAgentId(value);
+    }
+  }
+}
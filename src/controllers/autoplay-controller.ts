@@ -0,0 +1,206 @@
+import { type GameAgentRecommendation } from "../ai/game-agent";
+import { type IAsyncGameAgent } from "../ai/async-game-agent";
+import {
+  CancellationError,
+  CancellationTokenSource,
+} from "../common/cancellation-token";
+import { isGameActive } from "../common/game-status";
+import { type IGameEngine } from "../engine/game-engine";
+import { allowsAssistance } from "../models/challenge-mode";
+import { type IAutoplayRenderer } from "../renderers/autoplay-renderer";
+import { type IAgentStatusRenderer } from "../renderers/agent-status-renderer";
+import { type GameController } from "./game-controller";
+
+/**
+ * Lets a `IGameAgent` play the game on its own, one recommended move after
+ * another, until the game ends or the player pauses it. Moves can also be
+ * played one at a time, and the delay between moves can be adjusted.
+ */
+export class AutoplayController {
+  #boundOnToggleClick: () => void;
+  #boundOnStepClick: () => void;
+  #boundOnSpeedInput: (event: Event) => void;
+
+  #isPlaying = false;
+
+  #isStepping = false;
+
+  #movesPerSecond: number;
+
+  #lastRecommendation: GameAgentRecommendation | null = null;
+
+  /** Cancels the search for the next move, if one is in progress. */
+  #search: CancellationTokenSource | null = null;
+
+  constructor(
+    private readonly engine: IGameEngine,
+    private readonly gameController: GameController,
+    private readonly agent: IAsyncGameAgent,
+    private readonly renderer: IAutoplayRenderer,
+    private readonly agentStatusRenderer: IAgentStatusRenderer,
+    private readonly config: {
+      movesPerSecond: number;
+    }
+  ) {
+    this.#movesPerSecond = this.config.movesPerSecond;
+    this.#boundOnToggleClick = this.#onToggleClick.bind(this);
+    this.#boundOnStepClick = this.#onStepClick.bind(this);
+    this.#boundOnSpeedInput = this.#onSpeedInput.bind(this);
+  }
+
+  init() {
+    this.engine.on("statusChange", ({ status }) => {
+      if (!isGameActive(status)) {
+        this.#pause();
+      }
+    });
+    // The recommendation being searched for belongs to the previous game.
+    this.engine.on("start", () => {
+      this.#pause();
+      this.#updateControls();
+    });
+
+    document
+      .getElementById("autoplay-toggle")
+      ?.addEventListener("click", this.#boundOnToggleClick);
+    document
+      .getElementById("autoplay-step")
+      ?.addEventListener("click", this.#boundOnStepClick);
+
+    const speedInputEl = document.getElementById("autoplay-speed");
+
+    if (speedInputEl instanceof HTMLInputElement) {
+      speedInputEl.value = this.#movesPerSecond.toString();
+      speedInputEl.addEventListener("input", this.#boundOnSpeedInput);
+    }
+
+    this.#render();
+    this.#updateControls();
+  }
+
+  #onToggleClick() {
+    if (this.#isPlaying) {
+      this.#pause();
+    } else {
+      this.#play();
+    }
+  }
+
+  async #onStepClick() {
+    if (this.#isPlaying) return;
+
+    await this.#step();
+  }
+
+  #onSpeedInput(event: Event) {
+    const movesPerSecond = parseFloat((event.target as HTMLInputElement).value);
+
+    if (movesPerSecond > 0) {
+      this.#movesPerSecond = movesPerSecond;
+    }
+  }
+
+  async #play() {
+    if (!this.#canPlay()) return;
+
+    this.#isPlaying = true;
+    this.#render();
+
+    while (this.#isPlaying) {
+      const hasMoved = await this.#step();
+
+      if (!hasMoved) {
+        // A failed step has paused already, and reported why.
+        if (this.#isPlaying) this.#pause();
+        break;
+      }
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, 1000 / this.#movesPerSecond)
+      );
+    }
+  }
+
+  #pause() {
+    this.#isPlaying = false;
+    this.#search?.cancel();
+    this.#render();
+  }
+
+  /**
+   * Asks the agent for a move and plays it.
+   * @returns {Promise<boolean>} `true` if a move was played.
+   */
+  async #step(): Promise<boolean> {
+    if (this.#isStepping || !this.#canPlay()) {
+      return false;
+    }
+
+    this.#isStepping = true;
+
+    try {
+      const search = new CancellationTokenSource();
+      this.#search = search;
+      this.agentStatusRenderer.renderAgentStatus(0);
+
+      try {
+        this.#lastRecommendation = await this.agent.analyzeNextMove(
+          this.engine.getBoard(),
+          {
+            cancellationToken: search.token,
+            onProgress: (progress) =>
+              this.agentStatusRenderer.renderAgentStatus(progress),
+          }
+        );
+      } finally {
+        this.#search = null;
+        this.agentStatusRenderer.renderAgentStatus(null);
+      }
+
+      this.#render();
+
+      if (this.#lastRecommendation) {
+        await this.gameController.playMove(this.#lastRecommendation.direction);
+      }
+
+      return this.#lastRecommendation !== null;
+    } catch (error) {
+      if (error instanceof CancellationError) return false;
+
+      // Stops autoplay rather than retrying a move that keeps failing.
+      this.#pause();
+      this.renderer.renderError((error as Error).message);
+
+      return false;
+    } finally {
+      this.#isStepping = false;
+    }
+  }
+
+  /**
+   * @returns {boolean} `true` if the agent may play the current game,
+   * which challenges played without assistance rule out.
+   */
+  #canPlay(): boolean {
+    return (
+      isGameActive(this.engine.getStatus()) &&
+      allowsAssistance(this.engine.getChallengeMode())
+    );
+  }
+
+  #updateControls() {
+    const isDisabled = !allowsAssistance(this.engine.getChallengeMode());
+
+    for (const id of ["autoplay-toggle", "autoplay-step"]) {
+      const buttonEl = document.getElementById(id);
+
+      if (buttonEl instanceof HTMLButtonElement) {
+        buttonEl.disabled = isDisabled;
+      }
+    }
+  }
+
+  #render() {
+    this.renderer.renderAutoplay(this.#isPlaying, this.#lastRecommendation);
+  }
+}
@@ -0,0 +1,216 @@
+import { GameStatus, isGameActive } from "../common/game-status";
+import { type IGameEngine } from "../engine/game-engine";
+import {
+  type ChallengeMode,
+  getChallengeKey,
+  getChallengeResult,
+  isBetterChallengeResult,
+} from "../models/challenge-mode";
+import {
+  formatDailyResult,
+  getDailyChallengeDate,
+} from "../models/daily-challenge";
+import {
+  type DailyResultCopyState,
+  type IChallengeRenderer,
+} from "../renderers/challenge-renderer";
+import { type IChallengeResultsStorage } from "../storage/challenge-results-storage";
+import { type GameController } from "./game-controller";
+
+/**
+ * The challenge panel: starts games in the challenge modes, times time
+ * attacks, shows the timer or move counter of the game being played, and
+ * keeps the best result of every mode. Once a daily challenge is over,
+ * its result is shown, ready to be copied and shared.
+ */
+export class ChallengeController {
+  #boundOnClick: (event: MouseEvent) => void;
+  #boundOnDailyResultClick: (event: MouseEvent) => void;
+  #boundOnTick: () => void;
+
+  /** The result of the daily challenge that just ended, if any. */
+  #dailyResult: string | null = null;
+
+  /** Ticks while a time attack is being played. */
+  #timer: ReturnType<typeof setInterval> | null = null;
+
+  /** When the time attack being played ends, per `performance.now()`. */
+  #deadline = 0;
+
+  /** How often the timer is checked, in milliseconds. */
+  #tickInterval = 250;
+
+  constructor(
+    private readonly engine: IGameEngine,
+    private readonly gameController: GameController,
+    private readonly renderer: IChallengeRenderer,
+    private readonly storage: IChallengeResultsStorage,
+    private readonly modes: ChallengeMode[],
+    private readonly panelEl: HTMLElement | null,
+    private readonly dailyResultEl: HTMLElement | null
+  ) {
+    this.#boundOnClick = this.#onClick.bind(this);
+    this.#boundOnDailyResultClick = this.#onDailyResultClick.bind(this);
+    this.#boundOnTick = this.#onTick.bind(this);
+  }
+
+  init() {
+    this.engine.on("start", () => {
+      this.#stopTimer();
+
+      const challengeMode = this.engine.getChallengeMode();
+
+      if (challengeMode.id === "time-attack") {
+        this.#deadline = performance.now() + challengeMode.timeLimit;
+        this.#timer = setInterval(this.#boundOnTick, this.#tickInterval);
+      }
+
+      this.#dailyResult = null;
+      this.renderer.renderDailyResult(null, "not-copied");
+      this.#renderModes();
+      this.#renderProgress();
+    });
+    this.engine.on("move", () => this.#renderProgress());
+    this.engine.on("restore", () => this.#renderProgress());
+    this.engine.on("statusChange", ({ status }) => {
+      if (!isGameActive(status)) {
+        this.#stopTimer();
+        this.#recordResult(status);
+        this.#showDailyResult();
+      }
+    });
+
+    this.panelEl?.addEventListener("click", this.#boundOnClick);
+    this.dailyResultEl?.addEventListener(
+      "click",
+      this.#boundOnDailyResultClick
+    );
+
+    this.#renderModes();
+    this.#renderProgress();
+  }
+
+  #onClick(event: MouseEvent) {
+    const buttonEl = (event.target as HTMLElement).closest(
+      '[data-action="start"]'
+    );
+    const mode = this.modes.find(
+      ({ id }) => id === buttonEl?.getAttribute("data-mode")
+    );
+
+    if (mode) {
+      // The day is only settled when the challenge starts, in case the
+      // page has been open since the day before.
+      this.gameController.startChallenge(
+        mode.id === "daily"
+          ? { id: "daily", date: getDailyChallengeDate(new Date()) }
+          : mode
+      );
+    }
+  }
+
+  async #onDailyResultClick(event: MouseEvent) {
+    const action = (event.target as HTMLElement)
+      .closest("[data-action]")
+      ?.getAttribute("data-action");
+    const dailyResult = this.#dailyResult;
+
+    if (action !== "copy" || dailyResult === null) return;
+
+    let copyState: DailyResultCopyState;
+
+    try {
+      await navigator.clipboard.writeText(dailyResult);
+      copyState = "copied";
+    } catch {
+      // E.g. the page is not focused or clipboard access was denied.
+      copyState = "failed";
+    }
+
+    if (this.#dailyResult === dailyResult) {
+      this.renderer.renderDailyResult(dailyResult, copyState);
+    }
+  }
+
+  #onTick() {
+    this.#renderProgress();
+
+    if (this.#getRemainingTime() > 0) return;
+
+    this.#stopTimer();
+
+    if (isGameActive(this.engine.getStatus())) {
+      this.engine.expire();
+    }
+  }
+
+  #stopTimer() {
+    if (this.#timer === null) return;
+
+    clearInterval(this.#timer);
+    this.#timer = null;
+  }
+
+  #getRemainingTime(): number {
+    return Math.max(0, this.#deadline - performance.now());
+  }
+
+  #recordResult(status: GameStatus) {
+    const challengeMode = this.engine.getChallengeMode();
+    const result = getChallengeResult(challengeMode, {
+      status,
+      score: this.engine.getScore(),
+      moveCount: this.engine.getMoveCount(),
+      maxValue: this.engine.getBoard().findMaxValueGamePiece()?.value ?? 0,
+    });
+    const bestResults = this.storage.getBestResults();
+    const challengeKey = getChallengeKey(challengeMode);
+
+    if (
+      result === null ||
+      !isBetterChallengeResult(
+        challengeMode.id,
+        result,
+        bestResults[challengeKey]
+      )
+    ) {
+      return;
+    }
+
+    this.storage.saveBestResults({
+      ...bestResults,
+      [challengeKey]: result,
+    });
+    this.#renderModes();
+  }
+
+  #showDailyResult() {
+    const challengeMode = this.engine.getChallengeMode();
+
+    if (challengeMode.id !== "daily") return;
+
+    this.#dailyResult = formatDailyResult(
+      challengeMode.date,
+      this.engine.getBoard(),
+      this.engine.getScore(),
+      this.engine.getMoveCount()
+    );
+    this.renderer.renderDailyResult(this.#dailyResult, "not-copied");
+  }
+
+  #renderModes() {
+    this.renderer.renderModes(
+      this.modes,
+      this.engine.getChallengeMode(),
+      this.storage.getBestResults()
+    );
+  }
+
+  #renderProgress() {
+    this.renderer.renderProgress(
+      this.engine.getChallengeMode(),
+      this.engine.getMoveCount(),
+      this.#getRemainingTime()
+    );
+  }
+}
@@ -1,112 +1,504 @@
-import { type IGameBoard } from "../models/game-board";
-import { type IGamePieceFactory } from "../factories/game-piece-factory";
 import { type IGameRenderer } from "../renderers/game-renderer";
-import { GameStatus } from "../common/game-status";
-import { ShiftDirection, ShiftDirectionMap } from "../common/shift-direction";
-import type { IGameAgent } from "../ai/game-agent";
+import { GameStatus, isGameActive } from "../common/game-status";
+import { type ShiftDirection } from "../common/shift-direction";
+import { type IAsyncGameAgent } from "../ai/async-game-agent";
+import { type IBestScoreStorage } from "../storage/best-score-storage";
+import { type ISavedGameStorage } from "../storage/saved-game-storage";
+import {
+  type GameState,
+  type IGameStateSerializer,
+} from "../serialization/game-state-serializer";
+import { type IGameEngine } from "../engine/game-engine";
+import {
+  allowsAssistance,
+  allowsKeepPlaying,
+  type ChallengeMode,
+} from "../models/challenge-mode";
+import { type IInputSource } from "../input/input-source";
+import { getShiftDirection, InputAction } from "../input/input-action";
+import { type IAgentStatusRenderer } from "../renderers/agent-status-renderer";
+import { type IHintRenderer } from "../renderers/hint-renderer";
+import { type GameAgentRecommendation } from "../ai/game-agent";
+import {
+  CancellationError,
+  CancellationTokenSource,
+} from "../common/cancellation-token";
 
+/**
+ * Connects a `IGameEngine` to the browser: translates DOM events into
+ * engine calls, and engine events into rendering and storage updates.
+ */
 export class GameController {
-  #boundOnArrowKeyDown: (event: KeyboardEvent) => void;
+  #boundOnInputAction: (action: InputAction) => void;
   #boundOnAiRecommendationClick: () => void;
+  #boundOnUndoClick: () => void;
+  #boundOnRedoClick: () => void;
+  #boundOnResumeGameClick: () => void;
+  #boundOnHintClick: (event: MouseEvent) => void;
+  #boundOnNewGameClick: () => void;
+  #boundOnMessageClick: (event: MouseEvent) => void;
 
-  #status: GameStatus | null = null;
+  /** Unsubscribes the controller from the engine events. */
+  #engineSubscriptions: (() => void)[] = [];
+
+  #bestScore = 0;
+
+  #savedGameState: GameState | null = null;
+
+  #isAnimating = false;
+
+  /**
+   * A move received while the previous one was still being animated.
+   * Only the latest one is kept, so that fast key presses don't pile up.
+   */
+  #queuedDirection: ShiftDirection | null = null;
+
+  /** Cancels the hint search in progress, if any. */
+  #hintSearch: CancellationTokenSource | null = null;
+
+  /** The recommendation shown in the hint overlay, if any. */
+  #hint: GameAgentRecommendation | null = null;
 
   constructor(
-    private readonly board: IGameBoard,
-    private readonly pieceFactory: IGamePieceFactory,
+    private readonly engine: IGameEngine,
     private readonly renderer: IGameRenderer,
-    private readonly agent: IGameAgent,
-    private readonly config: {
-      gameWinValue: number;
-      startingPieceCount: number;
-    }
+    private readonly agent: IAsyncGameAgent,
+    private readonly agentStatusRenderer: IAgentStatusRenderer,
+    private readonly hintRenderer: IHintRenderer,
+    private readonly bestScoreStorage: IBestScoreStorage,
+    private readonly savedGameStorage: ISavedGameStorage,
+    private readonly gameStateSerializer: IGameStateSerializer,
+    private readonly inputSources: IInputSource[],
+    private readonly messageBoardEl: HTMLElement | null
   ) {
-    this.#boundOnArrowKeyDown = this.#onArrowKeyDown.bind(this);
+    this.#boundOnInputAction = this.#onInputAction.bind(this);
     this.#boundOnAiRecommendationClick =
       this.#onAiRecommendationClick.bind(this);
+    this.#boundOnUndoClick = this.#undo.bind(this);
+    this.#boundOnRedoClick = this.#redo.bind(this);
+    this.#boundOnResumeGameClick = this.#onResumeGameClick.bind(this);
+    this.#boundOnHintClick = this.#onHintClick.bind(this);
+    this.#boundOnNewGameClick = () => this.#restart();
+    this.#boundOnMessageClick = this.#onMessageClick.bind(this);
   }
 
   startGame() {
-    if (this.#status === GameStatus.InProgress) {
-      throw new Error("Game already started.");
+    this.#engineSubscriptions = [
+      this.engine.on("start", () => {
+        this.#hintSearch?.cancel();
+        this.#hideHint();
+        this.#queuedDirection = null;
+        this.renderer.renderBoard(this.engine.getBoard());
+        this.renderer.renderScore(this.engine.getScore(), this.#bestScore);
+        this.#updateHistoryControls();
+      }),
+      this.engine.on("move", ({ score }) => {
+        this.#hintSearch?.cancel();
+        this.#hideHint();
+        this.#updateBestScore(score);
+        this.renderer.renderScore(score, this.#bestScore);
+        this.#updateHistoryControls();
+        this.#saveGame();
+      }),
+      this.engine.on("restore", ({ state }) => {
+        this.#hintSearch?.cancel();
+        this.#hideHint();
+        this.renderer.renderBoard(this.engine.getBoard());
+        this.renderer.renderScore(state.score, this.#bestScore);
+        this.#updateHistoryControls();
+        this.#saveGame();
+      }),
+      this.engine.on("statusChange", ({ status }) => {
+        // Messages for ended games are rendered once the last move has
+        // been animated, see `#executeMove`, except when the time runs
+        // out, which happens between moves.
+        if (isGameActive(status)) {
+          this.#renderMessage(status);
+          this.#addEventListeners();
+        } else {
+          this.#removeEventListeners();
+        }
+
+        if (status === GameStatus.TimeUp) {
+          this.#hintSearch?.cancel();
+          this.#hideHint();
+          this.#renderMessage(status);
+        }
+      }),
+    ];
+
+    this.#bestScore = this.bestScoreStorage.getBestScore();
+    this.engine.start();
+    document
+      .getElementById("new-game")
+      ?.addEventListener("click", this.#boundOnNewGameClick);
+    this.messageBoardEl?.addEventListener("click", this.#boundOnMessageClick);
+
+    this.#savedGameState = this.#loadSavedGame();
+
+    if (this.#savedGameState && isGameActive(this.#savedGameState.status)) {
+      const resumeGameButtonEl = document.getElementById("resume-game");
+      resumeGameButtonEl?.removeAttribute("hidden");
+      resumeGameButtonEl?.addEventListener(
+        "click",
+        this.#boundOnResumeGameClick
+      );
+    }
+  }
+
+  /**
+   * Applies a move the same way as if it had been entered by the player.
+   *
+   * @param {ShiftDirection} direction - The direction to shift the board in.
+   * @returns {Promise<void>} Resolves once the move has been animated.
+   */
+  playMove(direction: ShiftDirection): Promise<void> {
+    return this.#executeMove(direction);
+  }
+
+  /**
+   * Discards the current game and starts a new one in a challenge mode.
+   * Ignored while a move is being animated.
+   *
+   * @param {ChallengeMode} challengeMode - The mode to play in.
+   */
+  startChallenge(challengeMode: ChallengeMode) {
+    this.#restart(challengeMode);
+  }
+
+  /**
+   * Stops the game: unsubscribes from the engine and removes every
+   * listener added since `startGame`, so that the page can be handed over
+   * to another controller without leaking handlers.
+   */
+  dispose() {
+    this.#hintSearch?.cancel();
+    this.#hideHint();
+
+    for (const unsubscribe of this.#engineSubscriptions) {
+      unsubscribe();
     }
 
-    this.#placeNewPieces(this.config.startingPieceCount);
-    this.renderer.renderBoard(this.board);
-    document.addEventListener("keydown", this.#boundOnArrowKeyDown);
+    this.#engineSubscriptions = [];
+    this.#removeEventListeners();
+    this.#hideResumeGameButton();
+    document
+      .getElementById("new-game")
+      ?.removeEventListener("click", this.#boundOnNewGameClick);
+    this.messageBoardEl?.removeEventListener(
+      "click",
+      this.#boundOnMessageClick
+    );
+  }
+
+  /**
+   * Listens for the input that plays the game. Adding the listeners again
+   * replaces them rather than duplicating them.
+   */
+  #addEventListeners() {
+    for (const inputSource of this.inputSources) {
+      inputSource.attach(this.#boundOnInputAction);
+    }
     document
       .getElementById("ai-recommendation")
       ?.addEventListener("click", this.#boundOnAiRecommendationClick);
+    document
+      .getElementById("hint-overlay")
+      ?.addEventListener("click", this.#boundOnHintClick);
+    document
+      .getElementById("undo")
+      ?.addEventListener("click", this.#boundOnUndoClick);
+    document
+      .getElementById("redo")
+      ?.addEventListener("click", this.#boundOnRedoClick);
   }
 
-  #placeNewPieces(count: number) {
-    for (const coordinate of this.board.getRandomEmptyCoordinates(count)) {
-      this.board.placeGamePiece(this.pieceFactory.createPiece(), coordinate);
+  #removeEventListeners() {
+    for (const inputSource of this.inputSources) {
+      inputSource.detach();
     }
+    document
+      .getElementById("ai-recommendation")
+      ?.removeEventListener("click", this.#boundOnAiRecommendationClick);
+    document
+      .getElementById("hint-overlay")
+      ?.removeEventListener("click", this.#boundOnHintClick);
+    document
+      .getElementById("undo")
+      ?.removeEventListener("click", this.#boundOnUndoClick);
+    document
+      .getElementById("redo")
+      ?.removeEventListener("click", this.#boundOnRedoClick);
   }
 
-  #onArrowKeyDown(event: KeyboardEvent) {
-    let direction: ShiftDirection | null = null;
-
-    switch (event.key) {
-      case "ArrowDown":
-        direction = ShiftDirection.Down;
+  #onInputAction(action: InputAction) {
+    switch (action) {
+      case InputAction.Undo:
+        this.#undo();
         break;
-      case "ArrowLeft":
-        direction = ShiftDirection.Left;
+      case InputAction.Redo:
+        this.#redo();
         break;
-      case "ArrowRight":
-        direction = ShiftDirection.Right;
+      case InputAction.Hint:
+        this.#onAiRecommendationClick();
         break;
-      case "ArrowUp":
-        direction = ShiftDirection.Up;
-        break;
-      default:
-        break;
-    }
+      default: {
+        const direction = getShiftDirection(action);
 
-    if (direction !== null) {
-      this.#executeMove(direction);
+        if (direction !== null) {
+          this.#playRequestedMove(direction);
+        }
+      }
     }
   }
 
-  #executeMove(direction: ShiftDirection) {
-    const hasMoved = this.board.shift(direction);
+  /**
+   * Plays a move the player asked for through an input or the hint. No
+   * caller waits for it, so a move that fails to render is reported in the
+   * message board instead.
+   */
+  #playRequestedMove(direction: ShiftDirection) {
+    this.#executeMove(direction).catch((error) => {
+      this.#queuedDirection = null;
+      this.renderer.renderError(
+        `The move could not be shown: ${(error as Error).message}`
+      );
+    });
+  }
 
-    if (hasMoved) {
-      this.#placeNewPieces(1);
-      this.renderer.renderBoard(this.board);
+  async #executeMove(direction: ShiftDirection) {
+    if (this.#isAnimating) {
+      this.#queuedDirection = direction;
+      return;
+    }
 
-      if (
-        this.board.findMaxValueGamePiece()?.value === this.config.gameWinValue
-      ) {
-        this.#status = GameStatus.Won;
-      } else if (!this.board.hasValidMoves()) {
-        this.#status = GameStatus.Lost;
+    const moveResult = this.engine.move(direction);
+
+    if (moveResult.hasMoved) {
+      this.#isAnimating = true;
+
+      try {
+        await this.renderer.renderBoard(this.engine.getBoard(), moveResult);
+      } finally {
+        this.#isAnimating = false;
       }
 
-      if (this.#status === GameStatus.Won || this.#status === GameStatus.Lost) {
-        document.removeEventListener("keydown", this.#boundOnArrowKeyDown);
-        document
-          .getElementById("ai-recommendation")
-          ?.removeEventListener("click", this.#boundOnAiRecommendationClick);
-        this.renderer.renderMessage(this.#status);
+      const status = this.engine.getStatus();
+
+      if (status !== null && !isGameActive(status)) {
+        this.#queuedDirection = null;
+        this.#renderMessage(status);
+        return;
       }
     }
+
+    if (this.#queuedDirection !== null) {
+      const queuedDirection = this.#queuedDirection;
+      this.#queuedDirection = null;
+      await this.#executeMove(queuedDirection);
+    }
+  }
+
+  #renderMessage(status: GameStatus) {
+    this.renderer.renderMessage(
+      status,
+      this.engine.getScore(),
+      allowsKeepPlaying(this.engine.getChallengeMode())
+    );
+  }
+
+  #undo() {
+    if (this.#isAnimating) return;
+
+    this.engine.undo();
   }
 
-  #onAiRecommendationClick() {
-    const recommendedMove = this.agent.recommendNextMove(this.board);
+  #redo() {
+    if (this.#isAnimating) return;
+
+    this.engine.redo();
+  }
 
-    if (recommendedMove != null) {
-      const executeConfirmed = window.confirm(`
-            The recommended move is: ${ShiftDirectionMap[recommendedMove]}.
-            Would you like to execute it?
-          `);
+  /**
+   * Discards the current game and starts a new one, which replaces the
+   * saved game unless it is a challenge.
+   * @param {ChallengeMode} [challengeMode] - The mode of the new game.
+   * Defaults to the mode of the current game.
+   */
+  #restart(challengeMode?: ChallengeMode) {
+    if (this.#isAnimating) return;
 
-      if (executeConfirmed) {
-        this.#executeMove(recommendedMove);
+    this.engine.restart(challengeMode);
+    this.#saveGame();
+  }
+
+  #onMessageClick(event: MouseEvent) {
+    const action = (event.target as HTMLElement)
+      .closest("[data-action]")
+      ?.getAttribute("data-action");
+
+    if (action === "keep-playing") {
+      this.engine.keepPlaying();
+      this.#saveGame();
+    } else if (action === "restart") {
+      this.#restart();
+    } else if (action === "dismiss") {
+      const status = this.engine.getStatus();
+
+      if (status !== null) {
+        this.#renderMessage(status);
+      }
+    }
+  }
+
+  /**
+   * Enables the undo, redo and hint buttons when they can be used. Hints
+   * are not available in challenges played without assistance.
+   */
+  #updateHistoryControls() {
+    const undoButtonEl = document.getElementById("undo");
+    const redoButtonEl = document.getElementById("redo");
+    const hintButtonEl = document.getElementById("ai-recommendation");
+
+    if (hintButtonEl instanceof HTMLButtonElement) {
+      hintButtonEl.disabled = !allowsAssistance(this.engine.getChallengeMode());
+    }
+
+    if (undoButtonEl instanceof HTMLButtonElement) {
+      undoButtonEl.disabled = !this.engine.canUndo();
+    }
+
+    if (redoButtonEl instanceof HTMLButtonElement) {
+      redoButtonEl.disabled = !this.engine.canRedo();
+    }
+  }
+
+  #loadSavedGame(): GameState | null {
+    const serializedGame = this.savedGameStorage.loadGame();
+
+    if (serializedGame === null) return null;
+
+    try {
+      return this.gameStateSerializer.deserialize(serializedGame);
+    } catch (error) {
+      this.renderer.renderError(
+        `The last game could not be resumed: ${(error as Error).message}`
+      );
+      this.savedGameStorage.clearGame();
+      return null;
+    }
+  }
+
+  /**
+   * Saves classic games only. Challenges are meant to be played in one
+   * go, so they leave the last classic game to be resumed.
+   */
+  #saveGame() {
+    this.#hideResumeGameButton();
+
+    if (this.engine.getChallengeMode().id !== "classic") return;
+
+    this.savedGameStorage.saveGame(
+      this.gameStateSerializer.serialize(this.engine.getState())
+    );
+  }
+
+  #onResumeGameClick() {
+    if (this.#isAnimating || !this.#savedGameState) return;
+
+    this.engine.loadState(this.#savedGameState);
+    this.#savedGameState = null;
+    this.#hideResumeGameButton();
+  }
+
+  #hideResumeGameButton() {
+    const resumeGameButtonEl = document.getElementById("resume-game");
+    resumeGameButtonEl?.setAttribute("hidden", "");
+    resumeGameButtonEl?.removeEventListener(
+      "click",
+      this.#boundOnResumeGameClick
+    );
+  }
+
+  #updateBestScore(score: number) {
+    if (score > this.#bestScore) {
+      this.#bestScore = score;
+      this.bestScoreStorage.saveBestScore(this.#bestScore);
+    }
+  }
+
+  /**
+   * Searches for a recommended move in the background and explains it in
+   * the hint overlay. Asking for a hint while the search is running cancels
+   * it, and asking while the overlay is shown closes it. Any change to the
+   * board does both, since the recommendation would no longer apply.
+   */
+  async #onAiRecommendationClick() {
+    if (!allowsAssistance(this.engine.getChallengeMode())) return;
+
+    if (this.#hintSearch) {
+      this.#hintSearch.cancel();
+      return;
+    }
+
+    if (this.#hint) {
+      this.#hideHint();
+      return;
+    }
+
+    const hintSearch = new CancellationTokenSource();
+    let recommendation: GameAgentRecommendation | null;
+
+    this.#hintSearch = hintSearch;
+    this.agentStatusRenderer.renderAgentStatus(0);
+
+    try {
+      recommendation = await this.agent.analyzeNextMove(
+        this.engine.getBoard(),
+        {
+          cancellationToken: hintSearch.token,
+          onProgress: (progress) =>
+            this.agentStatusRenderer.renderAgentStatus(progress),
+        }
+      );
+    } catch (error) {
+      if (error instanceof CancellationError) {
+        this.agentStatusRenderer.renderAgentStatus(null);
+      } else {
+        // E.g. the n-tuple network could not be loaded.
+        this.agentStatusRenderer.renderAgentError((error as Error).message);
       }
+
+      return;
+    } finally {
+      this.#hintSearch = null;
+    }
+
+    this.agentStatusRenderer.renderAgentStatus(null);
+    this.#hint = recommendation;
+    this.hintRenderer.renderHint(recommendation);
+  }
+
+  #onHintClick(event: MouseEvent) {
+    const action = (event.target as HTMLElement)
+      .closest("[data-action]")
+      ?.getAttribute("data-action");
+    const hint = this.#hint;
+
+    if (!hint) return;
+
+    if (action === "play") {
+      this.#hideHint();
+      this.#playRequestedMove(hint.direction);
+    } else if (action === "dismiss") {
+      this.#hideHint();
     }
   }
+
+  #hideHint() {
+    if (!this.#hint) return;
+
+    this.#hint = null;
+    this.hintRenderer.renderHint(null);
+  }
 }
@@ -0,0 +1,72 @@
+import {
+  defaultHeuristicWeights,
+  type HeuristicWeights,
+  type IWeightedGameAgent,
+} from "../ai/game-agent";
+import { type IHeuristicWeightsRenderer } from "../renderers/heuristic-weights-renderer";
+import { type IHeuristicWeightsStorage } from "../storage/heuristic-weights-storage";
+
+/**
+ * A developer panel for experimenting with the weights the agent evaluates
+ * positions with. Changes apply to the next analysis and are kept across
+ * page loads until they are reset.
+ */
+export class HeuristicWeightsController {
+  #boundOnChange: (event: Event) => void;
+  #boundOnClick: (event: MouseEvent) => void;
+
+  constructor(
+    private readonly agent: IWeightedGameAgent,
+    private readonly renderer: IHeuristicWeightsRenderer,
+    private readonly storage: IHeuristicWeightsStorage,
+    private readonly containerEl: HTMLElement | null
+  ) {
+    this.#boundOnChange = this.#onChange.bind(this);
+    this.#boundOnClick = this.#onClick.bind(this);
+  }
+
+  init() {
+    const storedWeights = this.storage.getWeights();
+
+    if (storedWeights) {
+      this.agent.setWeights(storedWeights);
+    }
+
+    this.containerEl?.addEventListener("change", this.#boundOnChange);
+    this.containerEl?.addEventListener("click", this.#boundOnClick);
+    this.renderer.renderHeuristicWeights(this.agent.getWeights());
+  }
+
+  #onChange(event: Event) {
+    const { name, value } = event.target as HTMLInputElement;
+    const weight = parseFloat(value);
+
+    if (
+      !Object.hasOwn(defaultHeuristicWeights, name) ||
+      !Number.isFinite(weight)
+    ) {
+      this.renderer.renderHeuristicWeights(this.agent.getWeights());
+      return;
+    }
+
+    const weights: HeuristicWeights = {
+      ...this.agent.getWeights(),
+      [name]: weight,
+    };
+
+    this.agent.setWeights(weights);
+    this.storage.saveWeights(weights);
+  }
+
+  #onClick(event: MouseEvent) {
+    const action = (event.target as HTMLElement)
+      .closest("[data-action]")
+      ?.getAttribute("data-action");
+
+    if (action !== "reset") return;
+
+    this.agent.setWeights(defaultHeuristicWeights);
+    this.storage.clearWeights();
+    this.renderer.renderHeuristicWeights(defaultHeuristicWeights);
+  }
+}
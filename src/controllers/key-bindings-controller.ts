@@ -0,0 +1,122 @@
+import { InputAction } from "../input/input-action";
+import { type KeyboardInputSource } from "../input/keyboard-input-source";
+import {
+  keyBindingPresets,
+  rebindKey,
+  type KeyBindings,
+} from "../input/key-bindings";
+import { type IKeyBindingsRenderer } from "../renderers/key-bindings-renderer";
+import { type IKeyBindingsStorage } from "../storage/key-bindings-storage";
+
+/**
+ * Lets the player choose a key binding preset or rebind single actions,
+ * and keeps the keyboard input source and the stored bindings in sync.
+ */
+export class KeyBindingsController {
+  #boundOnClick: (event: MouseEvent) => void;
+  #boundOnChange: (event: Event) => void;
+  #boundOnCaptureKeyDown: (event: KeyboardEvent) => void;
+
+  #capturingAction: InputAction | null = null;
+
+  constructor(
+    private readonly keyboardInputSource: KeyboardInputSource,
+    private readonly renderer: IKeyBindingsRenderer,
+    private readonly storage: IKeyBindingsStorage,
+    private readonly containerEl: HTMLElement | null
+  ) {
+    this.#boundOnClick = this.#onClick.bind(this);
+    this.#boundOnChange = this.#onChange.bind(this);
+    this.#boundOnCaptureKeyDown = this.#onCaptureKeyDown.bind(this);
+  }
+
+  init() {
+    const storedBindings = this.storage.getKeyBindings();
+
+    if (storedBindings) {
+      this.keyboardInputSource.setBindings(storedBindings);
+    }
+
+    this.containerEl?.addEventListener("click", this.#boundOnClick);
+    this.containerEl?.addEventListener("change", this.#boundOnChange);
+    this.#render();
+  }
+
+  #onClick(event: MouseEvent) {
+    const actionName = (event.target as HTMLElement)
+      .closest("[data-action]")
+      ?.getAttribute("data-action");
+
+    if (!actionName) return;
+
+    this.#capturingAction = InputAction[actionName as keyof typeof InputAction];
+    // Capture the next key press before the keyboard input source sees it.
+    window.addEventListener("keydown", this.#boundOnCaptureKeyDown, {
+      capture: true,
+    });
+    this.#render();
+  }
+
+  #onChange(event: Event) {
+    const presetName = (event.target as HTMLSelectElement)
+      .value as keyof typeof keyBindingPresets;
+
+    if (Object.hasOwn(keyBindingPresets, presetName)) {
+      this.#updateBindings({ ...keyBindingPresets[presetName] });
+    }
+  }
+
+  #onCaptureKeyDown(event: KeyboardEvent) {
+    event.preventDefault();
+    event.stopImmediatePropagation();
+    window.removeEventListener("keydown", this.#boundOnCaptureKeyDown, {
+      capture: true,
+    });
+
+    const action = this.#capturingAction;
+    this.#capturingAction = null;
+
+    if (action === null || event.key === "Escape") {
+      this.#render();
+      return;
+    }
+
+    this.#updateBindings(
+      rebindKey(this.keyboardInputSource.getBindings(), event.key, action)
+    );
+  }
+
+  #updateBindings(bindings: KeyBindings) {
+    this.keyboardInputSource.setBindings(bindings);
+    this.storage.saveKeyBindings(bindings);
+    this.#render();
+  }
+
+  #render() {
+    const bindings = this.keyboardInputSource.getBindings();
+
+    this.renderer.renderKeyBindings(
+      bindings,
+      Object.keys(keyBindingPresets),
+      this.#findActivePresetName(bindings),
+      this.#capturingAction
+    );
+  }
+
+  #findActivePresetName(bindings: KeyBindings): string | null {
+    const serializedBindings = JSON.stringify(Object.entries(bindings).sort());
+
+    for (const [presetName, presetBindings] of Object.entries(
+      keyBindingPresets
+    )) {
+      if (
+        JSON.stringify(Object.entries(presetBindings).sort()) ===
+        serializedBindings
+      ) {
+        return presetName;
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,269 @@
+import { type IGameRecorder } from "../engine/game-recorder";
+import { type IGamePieceFactory } from "../factories/game-piece-factory";
+import {
+  createReplayFrames,
+  type GameReplay,
+  type ReplayFrame,
+} from "../models/game-replay";
+import { type IRandomSource } from "../random/random-source";
+import { type IGameRenderer } from "../renderers/game-renderer";
+import { type IReplayRenderer } from "../renderers/replay-renderer";
+import { type IGameReplaySerializer } from "../serialization/game-replay-serializer";
+
+/**
+ * The replay panel: exports the game being played to a file, imports
+ * replays from files, and plays them back on a board of their own. The
+ * playback can be stepped forward and back, scrubbed to any move and
+ * played at an adjustable speed.
+ */
+export class ReplayController {
+  #boundOnClick: (event: MouseEvent) => void;
+  #boundOnInput: (event: Event) => void;
+  #boundOnChange: (event: Event) => void;
+
+  #frames: ReplayFrame[] | null = null;
+
+  #position = 0;
+
+  #isPlaying = false;
+
+  /** Tells the current playback loop from ones that were paused. */
+  #playbackId = 0;
+
+  #movesPerSecond: number;
+
+  /**
+   * Renders frames one after another, so that a frame rendered while a
+   * move is being animated does not get overwritten by that animation.
+   */
+  #rendering: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly recorder: IGameRecorder,
+    private readonly serializer: IGameReplaySerializer,
+    private readonly renderer: IReplayRenderer,
+    private readonly boardRenderer: IGameRenderer,
+    private readonly pieceFactory: IGamePieceFactory,
+    private readonly randomSource: IRandomSource,
+    private readonly panelEl: HTMLElement | null,
+    private readonly config: {
+      movesPerSecond: number;
+    }
+  ) {
+    this.#movesPerSecond = this.config.movesPerSecond;
+    this.#boundOnClick = this.#onClick.bind(this);
+    this.#boundOnInput = this.#onInput.bind(this);
+    this.#boundOnChange = this.#onChange.bind(this);
+  }
+
+  init() {
+    this.panelEl?.addEventListener("click", this.#boundOnClick);
+    this.panelEl?.addEventListener("input", this.#boundOnInput);
+    this.panelEl?.addEventListener("change", this.#boundOnChange);
+
+    const speedInputEl = this.panelEl?.querySelector('[name="speed"]');
+
+    if (speedInputEl instanceof HTMLInputElement) {
+      speedInputEl.value = this.#movesPerSecond.toString();
+    }
+
+    this.#renderPlayback();
+  }
+
+  #onClick(event: MouseEvent) {
+    const action = (event.target as HTMLElement)
+      .closest("[data-action]")
+      ?.getAttribute("data-action");
+
+    switch (action) {
+      case "watch":
+        this.#watchCurrentGame();
+        break;
+      case "export":
+        this.#exportCurrentGame();
+        break;
+      case "play":
+        if (this.#isPlaying) {
+          this.#pause();
+        } else {
+          this.#play();
+        }
+        break;
+      case "first":
+        this.#pause();
+        this.#goTo(0);
+        break;
+      case "back":
+        this.#pause();
+        this.#goTo(this.#position - 1);
+        break;
+      case "forward":
+        this.#pause();
+        this.#goTo(this.#position + 1);
+        break;
+      case "last":
+        this.#pause();
+        this.#goTo(Infinity);
+        break;
+    }
+  }
+
+  #onInput(event: Event) {
+    const { name, value } = event.target as HTMLInputElement;
+
+    if (name === "position") {
+      this.#pause();
+      this.#goTo(parseInt(value));
+    } else if (name === "speed" && parseFloat(value) > 0) {
+      this.#movesPerSecond = parseFloat(value);
+    }
+  }
+
+  async #onChange(event: Event) {
+    const inputEl = event.target as HTMLInputElement;
+    const file = inputEl.name === "import" ? inputEl.files?.[0] : undefined;
+
+    if (!file) return;
+
+    inputEl.value = "";
+
+    try {
+      this.#load(this.serializer.deserialize(await file.text()));
+      this.renderer.renderStatus(`Loaded ${file.name}.`);
+    } catch (error) {
+      this.renderer.renderStatus(
+        `${file.name} could not be loaded: ${(error as Error).message}`
+      );
+    }
+  }
+
+  #watchCurrentGame() {
+    const replay = this.recorder.getReplay();
+
+    if (!replay) {
+      this.renderer.renderStatus("No game has been started yet.");
+      return;
+    }
+
+    this.#load(replay);
+    this.renderer.renderStatus("");
+  }
+
+  #exportCurrentGame() {
+    const replay = this.recorder.getReplay();
+
+    if (!replay) {
+      this.renderer.renderStatus("No game has been started yet.");
+      return;
+    }
+
+    const url = URL.createObjectURL(
+      new Blob([this.serializer.serialize(replay)], {
+        type: "application/json",
+      })
+    );
+    const linkEl = document.createElement("a");
+    linkEl.href = url;
+    linkEl.download = `2048-replay-${new Date().toISOString().slice(0, 10)}.json`;
+    linkEl.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * @throws {Error} If the moves of the replay cannot be played back.
+   */
+  #load(replay: GameReplay) {
+    const frames = createReplayFrames(
+      replay,
+      this.pieceFactory,
+      this.randomSource
+    );
+
+    this.#pause();
+    this.#frames = frames;
+    this.#position = 0;
+    this.#queueRender(frames[0]);
+    this.#renderPlayback();
+  }
+
+  async #play() {
+    if (!this.#frames) return;
+
+    if (this.#position === this.#frames.length - 1) {
+      this.#goTo(0);
+    }
+
+    const playbackId = ++this.#playbackId;
+
+    this.#isPlaying = true;
+    this.#renderPlayback();
+
+    while (this.#isPlaying && this.#playbackId === playbackId) {
+      await this.#goTo(this.#position + 1);
+      await new Promise((resolve) =>
+        setTimeout(resolve, 1000 / this.#movesPerSecond)
+      );
+
+      if (
+        this.#playbackId === playbackId &&
+        this.#position === this.#frames.length - 1
+      ) {
+        this.#pause();
+      }
+    }
+  }
+
+  #pause() {
+    if (!this.#isPlaying) return;
+
+    this.#isPlaying = false;
+    this.#renderPlayback();
+  }
+
+  /**
+   * Moves the playback to the frame at `position`, animating the move
+   * if it is the one right after the current frame.
+   *
+   * @returns {Promise<void>} Resolves once the frame has been rendered.
+   */
+  #goTo(position: number): Promise<void> {
+    if (!this.#frames || Number.isNaN(position)) return this.#rendering;
+
+    const clampedPosition = Math.max(
+      0,
+      Math.min(position, this.#frames.length - 1)
+    );
+
+    if (clampedPosition === this.#position) return this.#rendering;
+
+    const frame = this.#frames[clampedPosition];
+    const isNextFrame = clampedPosition === this.#position + 1;
+
+    this.#position = clampedPosition;
+    this.#renderPlayback();
+
+    return this.#queueRender(frame, isNextFrame);
+  }
+
+  #queueRender(frame: ReplayFrame, animate = false) {
+    this.#rendering = this.#rendering.then(() =>
+      this.boardRenderer.renderBoard(
+        frame.board,
+        animate ? frame.moveResult : undefined
+      )
+    );
+
+    return this.#rendering;
+  }
+
+  #renderPlayback() {
+    this.renderer.renderPlayback(
+      this.#frames && {
+        position: this.#position,
+        moveCount: this.#frames.length - 1,
+        score: this.#frames[this.#position].score,
+        isPlaying: this.#isPlaying,
+      }
+    );
+  }
+}
@@ -0,0 +1,267 @@
+import { describe, expect, it } from "vitest";
+import { GameStatus } from "../common/game-status";
+import { ShiftDirection } from "../common/shift-direction";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { GameBoard } from "../models/game-board";
+import { defaultSpawnPolicy } from "../models/spawn-policy";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import { GameEngine } from "./game-engine";
+
+const directions = [
+  ShiftDirection.Down,
+  ShiftDirection.Left,
+  ShiftDirection.Right,
+  ShiftDirection.Up,
+];
+
+function createEngine(spawnPolicy = defaultSpawnPolicy) {
+  const randomSource = new SeededRandomSource(1);
+
+  return new GameEngine(
+    new GameBoard(4, randomSource),
+    new DefaultGamePieceFactory(randomSource, spawnPolicy),
+    randomSource,
+    { gameWinValue: 16, startingPieceCount: 2, historyLimit: 10 }
+  );
+}
+
+function playUntil(engine: GameEngine, isDone: () => boolean) {
+  for (let index = 0; !isDone(); index += 1) {
+    engine.move(directions[index % directions.length]);
+  }
+}
+
+function countPieces(engine: GameEngine) {
+  return engine
+    .getBoard()
+    .getGrid()
+    .flat()
+    .filter((piece) => piece !== null).length;
+}
+
+describe("GameEngine", () => {
+  it("ends the game once the win value is reached", () => {
+    const engine = createEngine();
+    engine.start();
+
+    playUntil(engine, () => engine.getStatus() !== GameStatus.InProgress);
+
+    expect(engine.getStatus()).toBe(GameStatus.Won);
+    expect(() => engine.move(ShiftDirection.Left)).toThrow(
+      "Game is not in progress."
+    );
+  });
+
+  it("rejects history limits that are not integers", () => {
+    const randomSource = new SeededRandomSource(1);
+
+    expect(
+      () =>
+        new GameEngine(
+          new GameBoard(4, randomSource),
+          new DefaultGamePieceFactory(randomSource),
+          randomSource,
+          { gameWinValue: 16, startingPieceCount: 2, historyLimit: NaN }
+        )
+    ).toThrow("Invalid history limit: NaN.");
+  });
+
+  it("spawns the number of pieces per move of the spawn policy", () => {
+    const engine = createEngine({ ...defaultSpawnPolicy, piecesPerMove: 2 });
+    const spawnCounts: number[] = [];
+    engine.on("move", ({ spawns }) => spawnCounts.push(spawns.length));
+    engine.start();
+
+    playUntil(engine, () => engine.getMoveCount() === 3);
+
+    expect(spawnCounts).toEqual([2, 2, 2]);
+  });
+
+  describe("keepPlaying", () => {
+    it("lets a won game continue without winning it again", () => {
+      const engine = createEngine();
+      const statuses: GameStatus[] = [];
+      engine.on("statusChange", ({ status }) => statuses.push(status));
+      engine.start();
+      playUntil(engine, () => engine.getStatus() === GameStatus.Won);
+
+      engine.keepPlaying();
+      const moveCount = engine.getMoveCount();
+      playUntil(engine, () => engine.getMoveCount() > moveCount + 5);
+
+      expect(engine.getStatus()).toBe(GameStatus.KeepPlaying);
+      expect(statuses).toEqual([
+        GameStatus.InProgress,
+        GameStatus.Won,
+        GameStatus.KeepPlaying,
+      ]);
+    });
+
+    it("throws unless the game has been won", () => {
+      const engine = createEngine();
+      engine.start();
+
+      expect(() => engine.keepPlaying()).toThrow("Game has not been won.");
+    });
+  });
+
+  describe("restart", () => {
+    it("starts over with new starting pieces and no history", () => {
+      const engine = createEngine();
+      let startCount = 0;
+      engine.on("start", () => (startCount += 1));
+      engine.start();
+      playUntil(engine, () => engine.getStatus() === GameStatus.Won);
+
+      engine.restart();
+
+      expect(startCount).toBe(2);
+      expect(engine.getStatus()).toBe(GameStatus.InProgress);
+      expect(engine.getScore()).toBe(0);
+      expect(engine.getMoveCount()).toBe(0);
+      expect(engine.canUndo()).toBe(false);
+      expect(countPieces(engine)).toBe(2);
+    });
+  });
+
+  describe("challenge modes", () => {
+    it("keeps the challenge mode when restarting", () => {
+      const engine = createEngine();
+      engine.start();
+
+      engine.restart({ id: "limited-moves", moveLimit: 5 });
+      engine.restart();
+
+      expect(engine.getChallengeMode()).toEqual({
+        id: "limited-moves",
+        moveLimit: 5,
+      });
+    });
+
+    it("ends a limited-moves game once the moves are used up", () => {
+      const engine = createEngine();
+      engine.start();
+      engine.restart({ id: "limited-moves", moveLimit: 5 });
+
+      playUntil(engine, () => engine.getStatus() !== GameStatus.InProgress);
+
+      expect(engine.getStatus()).toBe(GameStatus.OutOfMoves);
+      expect(engine.getMoveCount()).toBe(5);
+    });
+
+    it("wins a fewest-moves game at its target instead of the win value", () => {
+      const engine = createEngine();
+      engine.start();
+      engine.restart({ id: "fewest-moves", targetValue: 32 });
+
+      playUntil(engine, () => engine.getStatus() !== GameStatus.InProgress);
+
+      expect(engine.getStatus()).toBe(GameStatus.Won);
+      expect(engine.getBoard().findMaxValueGamePiece()?.value).toBe(32);
+    });
+
+    it("ends a fewest-moves game with the win", () => {
+      const engine = createEngine();
+      engine.start();
+      engine.restart({ id: "fewest-moves", targetValue: 32 });
+      playUntil(engine, () => engine.getStatus() !== GameStatus.InProgress);
+
+      expect(() => engine.keepPlaying()).toThrow(
+        "Game cannot go on in this challenge mode."
+      );
+    });
+
+    it("never wins a time attack", () => {
+      const engine = createEngine();
+      engine.start();
+      engine.restart({ id: "time-attack", timeLimit: 1000 });
+
+      playUntil(
+        engine,
+        () => (engine.getBoard().findMaxValueGamePiece()?.value ?? 0) >= 32
+      );
+
+      expect(engine.getStatus()).toBe(GameStatus.InProgress);
+    });
+
+    it("ends a time attack when it expires", () => {
+      const engine = createEngine();
+      engine.start();
+      engine.restart({ id: "time-attack", timeLimit: 1000 });
+
+      engine.expire();
+
+      expect(engine.getStatus()).toBe(GameStatus.TimeUp);
+      expect(() => engine.expire()).toThrow("Game is not in progress.");
+    });
+
+    it("cannot undo moves of challenges", () => {
+      const engine = createEngine();
+      engine.start();
+      engine.restart({ id: "limited-moves", moveLimit: 5 });
+      playUntil(engine, () => engine.getMoveCount() === 2);
+
+      expect(engine.canUndo()).toBe(false);
+      expect(engine.undo()).toBe(false);
+      expect(engine.getMoveCount()).toBe(2);
+    });
+
+    it("only lets time attacks expire", () => {
+      const engine = createEngine();
+      engine.start();
+
+      expect(() => engine.expire()).toThrow("Game is not a time attack.");
+    });
+  });
+
+  describe("daily challenges", () => {
+    it("gives every player of the day the same pieces", () => {
+      const [engine, otherEngine] = [createEngine(), createEngine()];
+      engine.start();
+      otherEngine.start();
+      playUntil(otherEngine, () => otherEngine.getMoveCount() === 7);
+
+      for (const dailyEngine of [engine, otherEngine]) {
+        dailyEngine.restart({ id: "daily", date: "2026-10-19" });
+        playUntil(dailyEngine, () => dailyEngine.getMoveCount() === 10);
+      }
+
+      expect(countPieces(engine)).toBeGreaterThan(0);
+      expect(engine.getBoard().serialize()).toEqual(
+        otherEngine.getBoard().serialize()
+      );
+    });
+
+    it("does not carry the sequence of the day over to later games", () => {
+      const [engine, otherEngine] = [createEngine(), createEngine()];
+      engine.start();
+      otherEngine.start();
+
+      engine.restart({ id: "daily", date: "2026-10-19" });
+      const dailyBoard = engine.getBoard().serialize();
+      playUntil(engine, () => engine.getMoveCount() === 10);
+      engine.restart({ id: "classic" });
+      otherEngine.restart({ id: "classic" });
+
+      expect(engine.getBoard().serialize()).not.toEqual(dailyBoard);
+      expect(engine.getBoard().serialize()).toEqual(
+        otherEngine.getBoard().serialize()
+      );
+    });
+
+    it("gives other days other pieces", () => {
+      const [engine, otherEngine] = [createEngine(), createEngine()];
+      engine.start();
+      otherEngine.start();
+
+      engine.restart({ id: "daily", date: "2026-10-19" });
+      otherEngine.restart({ id: "daily", date: "2026-10-20" });
+      playUntil(engine, () => engine.getMoveCount() === 10);
+      playUntil(otherEngine, () => otherEngine.getMoveCount() === 10);
+
+      expect(engine.getBoard().serialize()).not.toEqual(
+        otherEngine.getBoard().serialize()
+      );
+    });
+  });
+});
@@ -0,0 +1,464 @@
+import { EventEmitter, type EventHandler } from "../common/event-emitter";
+import { GameStatus, isGameActive } from "../common/game-status";
+import { type ShiftDirection } from "../common/shift-direction";
+import { type IGamePieceFactory } from "../factories/game-piece-factory";
+import {
+  allowsAssistance,
+  allowsKeepPlaying,
+  type ChallengeMode,
+  classicChallengeMode,
+  getChallengeWinValue,
+} from "../models/challenge-mode";
+import {
+  dailyStartingPieceCount,
+  getDailySeed,
+} from "../models/daily-challenge";
+import { type IGameBoard } from "../models/game-board";
+import { GameHistory, type IGameHistory } from "../models/game-history";
+import { type MoveResult, type PieceSpawn } from "../models/move-result";
+import { findWorstSpawn } from "../models/spawn-policy";
+import { type IRandomSource } from "../random/random-source";
+import { type GameState } from "../serialization/game-state-serializer";
+
+type Config = {
+  /**
+   * Reaching this value, or a higher one the merge rule skips to, wins a
+   * classic game.
+   */
+  gameWinValue: number;
+  startingPieceCount: number;
+  historyLimit: number;
+};
+
+/**
+ * The events emitted by a `IGameEngine`, mapped to their payloads.
+ */
+export type GameEngineEvents = {
+  /** The starting pieces of a first or of a new game have been placed. */
+  start: { board: IGameBoard; spawns: PieceSpawn[] };
+  /** A move has been applied and new pieces have been spawned. */
+  move: { moveResult: MoveResult; spawns: PieceSpawn[]; score: number };
+  /** The status of the game has changed. */
+  statusChange: { status: GameStatus };
+  /** The game has been replaced by an earlier, later or loaded state. */
+  restore: { state: GameState };
+};
+
+/**
+ * Runs the rules of a game independently of any user interface:
+ * applies moves, spawns new pieces, keeps score, tracks the status and
+ * the undo/redo history, and reports all of it through events.
+ *
+ * The engine has no dependency on the DOM, so it can be used from Node
+ * for simulations and tests as well as from a browser adapter.
+ */
+export interface IGameEngine {
+  /**
+   * Places the starting pieces and marks the game as in progress. A daily
+   * challenge first reseeds the random source with the seed of its day.
+   * @throws {Error} If the game has already been started, or is a daily
+   * challenge and the random source cannot be seeded.
+   */
+  start(): void;
+
+  /**
+   * Discards the current game, its score and its history, and starts a
+   * new one on the emptied board. Unlike `start`, it can be called at any
+   * time.
+   *
+   * @param {ChallengeMode} [challengeMode] - The mode to play the new game
+   * in. Defaults to the mode of the current game. Leaving daily challenges
+   * restores the random source to its state before the first of them.
+   */
+  restart(challengeMode?: ChallengeMode): void;
+
+  /**
+   * Lets the player continue a won game, to reach higher values. The win
+   * value is not checked again until the next game.
+   * @throws {Error} If the game has not been won, or its challenge mode
+   * ends with the win, see `allowsKeepPlaying`.
+   */
+  keepPlaying(): void;
+
+  /**
+   * Ends a time attack whose time is up. The engine keeps no clock, so
+   * it is up to the caller to time the game.
+   * @throws {Error} If the game is not a time attack in progress.
+   */
+  expire(): void;
+
+  /**
+   * Shifts the board in the given direction. If any piece moved, new
+   * pieces are spawned according to the spawn policy of the piece factory,
+   * and the score and status are updated according to the challenge mode.
+   *
+   * @param {ShiftDirection} direction - The direction to shift the board in.
+   * @returns {MoveResult} The outcome of the shift.
+   * @throws {Error} If the game is over or has not been started.
+   */
+  move(direction: ShiftDirection): MoveResult;
+
+  /**
+   * Reverts the last move, including the piece it spawned. Moves of
+   * challenges played without assistance, see `allowsAssistance`, cannot
+   * be reverted.
+   * @returns {boolean} `true` if there was a move to revert.
+   */
+  undo(): boolean;
+
+  /**
+   * Re-applies the last reverted move, including the piece it spawned.
+   * @returns {boolean} `true` if there was a move to re-apply.
+   */
+  redo(): boolean;
+
+  /**
+   * @returns {boolean} `true` if there is a move that can be reverted.
+   */
+  canUndo(): boolean;
+
+  /**
+   * @returns {boolean} `true` if there is a move that can be re-applied.
+   */
+  canRedo(): boolean;
+
+  /**
+   * Replaces the current game with the provided state and clears the history.
+   * @param {GameState} state - The state to continue from.
+   */
+  loadState(state: GameState): void;
+
+  /**
+   * @returns {GameState} A snapshot of the current game that is not
+   * affected by subsequent moves.
+   */
+  getState(): GameState;
+
+  /**
+   * @returns {IGameBoard} The board the game is played on.
+   */
+  getBoard(): IGameBoard;
+
+  /**
+   * @returns {number} The sum of the values of all pieces merged so far.
+   */
+  getScore(): number;
+
+  /**
+   * @returns {GameStatus|null} The status of the game, or `null` if it has
+   * not been started yet.
+   */
+  getStatus(): GameStatus | null;
+
+  /**
+   * @returns {number} The number of moves applied so far.
+   */
+  getMoveCount(): number;
+
+  /**
+   * @returns {ChallengeMode} The mode the game is played in.
+   */
+  getChallengeMode(): ChallengeMode;
+
+  /**
+   * Subscribes a handler to an engine event.
+   * @returns {() => void} A function that unsubscribes the handler.
+   */
+  on<TEvent extends keyof GameEngineEvents>(
+    event: TEvent,
+    handler: EventHandler<GameEngineEvents[TEvent]>
+  ): () => void;
+
+  /**
+   * Unsubscribes a handler from an engine event.
+   */
+  off<TEvent extends keyof GameEngineEvents>(
+    event: TEvent,
+    handler: EventHandler<GameEngineEvents[TEvent]>
+  ): void;
+}
+
+export class GameEngine
+  extends EventEmitter<GameEngineEvents>
+  implements IGameEngine
+{
+  #board: IGameBoard;
+
+  #pieceFactory: IGamePieceFactory;
+
+  #randomSource: IRandomSource;
+
+  #config: Config;
+
+  #history: IGameHistory<GameState>;
+
+  #status: GameStatus | null = null;
+
+  #score = 0;
+
+  #moveCount = 0;
+
+  #challengeMode: ChallengeMode = classicChallengeMode;
+
+  /**
+   * The state of the random source before it was reseeded for a daily
+   * challenge, restored once the player leaves daily challenges, so that
+   * the games after them don't follow the sequence of the day.
+   */
+  #randomStateBeforeDaily: number | null = null;
+
+  constructor(
+    board: IGameBoard,
+    pieceFactory: IGamePieceFactory,
+    randomSource: IRandomSource,
+    config: Config
+  ) {
+    super();
+    this.#board = board;
+    this.#pieceFactory = pieceFactory;
+    this.#randomSource = randomSource;
+    this.#config = config;
+    this.#history = new GameHistory(config.historyLimit);
+  }
+
+  start() {
+    if (this.#status !== null) {
+      throw new Error("Game already started.");
+    }
+
+    const challengeMode = this.#challengeMode;
+    let startingPieceCount = this.#config.startingPieceCount;
+
+    if (challengeMode.id === "daily") {
+      this.#randomStateBeforeDaily ??= this.#randomSource.getState();
+      this.#randomSource.setState(getDailySeed(challengeMode.date));
+      startingPieceCount = dailyStartingPieceCount;
+    }
+
+    const spawns = this.#placeNewPieces(startingPieceCount);
+
+    this.emit("start", { board: this.#board, spawns });
+    this.#setStatus(GameStatus.InProgress);
+  }
+
+  restart(challengeMode = this.#challengeMode) {
+    this.#board.getGrid().forEach((row, rowIndex) =>
+      row.forEach((piece, columnIndex) => {
+        if (piece) this.#board.removeGamePiece({ rowIndex, columnIndex });
+      })
+    );
+    this.#history.clear();
+    this.#score = 0;
+    this.#moveCount = 0;
+    this.#status = null;
+    this.#challengeMode = challengeMode;
+
+    if (challengeMode.id !== "daily" && this.#randomStateBeforeDaily !== null) {
+      this.#randomSource.setState(this.#randomStateBeforeDaily);
+      this.#randomStateBeforeDaily = null;
+    }
+
+    this.start();
+  }
+
+  keepPlaying() {
+    if (this.#status !== GameStatus.Won) {
+      throw new Error("Game has not been won.");
+    }
+
+    if (!allowsKeepPlaying(this.#challengeMode)) {
+      throw new Error("Game cannot go on in this challenge mode.");
+    }
+
+    this.#setStatus(GameStatus.KeepPlaying);
+  }
+
+  expire() {
+    if (this.#challengeMode.id !== "time-attack") {
+      throw new Error("Game is not a time attack.");
+    }
+
+    if (!isGameActive(this.#status)) {
+      throw new Error("Game is not in progress.");
+    }
+
+    this.#setStatus(GameStatus.TimeUp);
+  }
+
+  move(direction: ShiftDirection): MoveResult {
+    if (!isGameActive(this.#status)) {
+      throw new Error("Game is not in progress.");
+    }
+
+    const snapshot = this.getState();
+    const moveResult = this.#board.shift(direction);
+
+    if (!moveResult.hasMoved) return moveResult;
+
+    this.#history.record(snapshot);
+
+    const spawns = this.#spawnPieces();
+    this.#score += moveResult.scoreGained;
+    this.#moveCount += 1;
+
+    this.emit("move", { moveResult, spawns, score: this.#score });
+
+    const challengeMode = this.#challengeMode;
+    const winValue = getChallengeWinValue(
+      challengeMode,
+      this.#config.gameWinValue
+    );
+
+    if (
+      this.#status === GameStatus.InProgress &&
+      winValue !== null &&
+      (this.#board.findMaxValueGamePiece()?.value ?? 0) >= winValue
+    ) {
+      this.#setStatus(GameStatus.Won);
+    } else if (
+      challengeMode.id === "limited-moves" &&
+      this.#moveCount >= challengeMode.moveLimit
+    ) {
+      this.#setStatus(GameStatus.OutOfMoves);
+    } else if (!this.#board.hasValidMoves()) {
+      this.#setStatus(GameStatus.Lost);
+    }
+
+    return moveResult;
+  }
+
+  undo(): boolean {
+    if (!this.canUndo()) return false;
+
+    const snapshot = this.#history.undo(this.getState());
+
+    if (!snapshot) return false;
+
+    this.#restoreState(snapshot);
+
+    return true;
+  }
+
+  redo(): boolean {
+    if (!this.canRedo()) return false;
+
+    const snapshot = this.#history.redo(this.getState());
+
+    if (!snapshot) return false;
+
+    this.#restoreState(snapshot);
+
+    return true;
+  }
+
+  canUndo(): boolean {
+    return allowsAssistance(this.#challengeMode) && this.#history.canUndo();
+  }
+
+  canRedo(): boolean {
+    return allowsAssistance(this.#challengeMode) && this.#history.canRedo();
+  }
+
+  loadState(state: GameState) {
+    this.#history.clear();
+    this.#restoreState(state);
+  }
+
+  getState(): GameState {
+    return {
+      board: this.#board.clone(),
+      score: this.#score,
+      status: this.#status ?? GameStatus.InProgress,
+      moveCount: this.#moveCount,
+      randomState: this.#randomSource.getState(),
+    };
+  }
+
+  getBoard(): IGameBoard {
+    return this.#board;
+  }
+
+  getScore(): number {
+    return this.#score;
+  }
+
+  getStatus(): GameStatus | null {
+    return this.#status;
+  }
+
+  getMoveCount(): number {
+    return this.#moveCount;
+  }
+
+  getChallengeMode(): ChallengeMode {
+    return this.#challengeMode;
+  }
+
+  #placeNewPieces(count: number): PieceSpawn[] {
+    const spawns: PieceSpawn[] = [];
+
+    for (const coordinate of this.#board.getRandomEmptyCoordinates(count)) {
+      const piece = this.#pieceFactory.createPiece();
+      this.#board.placeGamePiece(piece, coordinate);
+      spawns.push({ pieceId: piece.id, coordinate, value: piece.value });
+    }
+
+    return spawns;
+  }
+
+  /**
+   * Spawns the pieces that follow a move. Starting pieces are always
+   * placed at random, even in `evil` mode.
+   */
+  #spawnPieces(): PieceSpawn[] {
+    const spawnPolicy = this.#pieceFactory.getSpawnPolicy();
+
+    if (spawnPolicy.mode === "random") {
+      return this.#placeNewPieces(spawnPolicy.piecesPerMove);
+    }
+
+    const spawns: PieceSpawn[] = [];
+
+    for (let index = 0; index < spawnPolicy.piecesPerMove; index += 1) {
+      const worstSpawn = findWorstSpawn(
+        this.#board,
+        spawnPolicy,
+        this.#pieceFactory
+      );
+
+      if (!worstSpawn) break;
+
+      const piece = this.#pieceFactory.createPiece(worstSpawn.value);
+      this.#board.placeGamePiece(piece, worstSpawn.coordinate);
+      spawns.push({
+        pieceId: piece.id,
+        coordinate: worstSpawn.coordinate,
+        value: piece.value,
+      });
+    }
+
+    return spawns;
+  }
+
+  #restoreState(state: GameState) {
+    this.#board = state.board;
+    this.#score = state.score;
+    this.#moveCount = state.moveCount;
+
+    // Restoring the random source as well means that repeating an undone
+    // move spawns the same piece instead of re-rolling it.
+    if (state.randomState !== null && this.#randomSource.getState() !== null) {
+      this.#randomSource.setState(state.randomState);
+    }
+
+    this.emit("restore", { state });
+    this.#setStatus(state.status);
+  }
+
+  #setStatus(status: GameStatus) {
+    if (this.#status === status) return;
+
+    this.#status = status;
+    this.emit("statusChange", { status });
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { ShiftDirection } from "../common/shift-direction";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { GameBoard } from "../models/game-board";
+import { createReplayFrames } from "../models/game-replay";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import { GameEngine } from "./game-engine";
+import { GameRecorder } from "./game-recorder";
+
+const directions = [
+  ShiftDirection.Down,
+  ShiftDirection.Left,
+  ShiftDirection.Right,
+  ShiftDirection.Up,
+];
+
+function createEngine(seed = 1) {
+  const randomSource = new SeededRandomSource(seed);
+
+  return new GameEngine(
+    new GameBoard(4, randomSource),
+    new DefaultGamePieceFactory(randomSource),
+    randomSource,
+    { gameWinValue: 2048, startingPieceCount: 2, historyLimit: 10 }
+  );
+}
+
+function playMoves(engine: GameEngine, count: number) {
+  for (let index = 0; engine.getMoveCount() < count; index += 1) {
+    engine.move(directions[index % directions.length]);
+  }
+}
+
+function replayFinalFrame(recorder: GameRecorder) {
+  const randomSource = new SeededRandomSource(0);
+  const frames = createReplayFrames(
+    recorder.getReplay()!,
+    new DefaultGamePieceFactory(randomSource),
+    randomSource
+  );
+
+  return frames[frames.length - 1];
+}
+
+describe("GameRecorder", () => {
+  it("has no replay before the game starts", () => {
+    expect(new GameRecorder(createEngine()).getReplay()).toBeNull();
+  });
+
+  it("records a game that plays back to the same board and score", () => {
+    const engine = createEngine();
+    const recorder = new GameRecorder(engine);
+
+    engine.start();
+    playMoves(engine, 20);
+
+    const frame = replayFinalFrame(recorder);
+
+    expect(recorder.getReplay()?.moves).toHaveLength(20);
+    expect(frame.board.serialize()).toEqual(engine.getBoard().serialize());
+    expect(frame.score).toBe(engine.getScore());
+  });
+
+  it("removes undone moves and adds redone moves back", () => {
+    const engine = createEngine();
+    const recorder = new GameRecorder(engine);
+
+    engine.start();
+    playMoves(engine, 5);
+
+    const moves = recorder.getReplay()?.moves;
+
+    engine.undo();
+    engine.undo();
+    expect(recorder.getReplay()?.moves).toEqual(moves?.slice(0, 3));
+
+    engine.redo();
+    expect(recorder.getReplay()?.moves).toEqual(moves?.slice(0, 4));
+  });
+
+  it("starts a new recording from a loaded game", () => {
+    const engine = createEngine();
+    const recorder = new GameRecorder(engine);
+    const otherEngine = createEngine(2);
+
+    engine.start();
+    playMoves(engine, 3);
+    otherEngine.start();
+    playMoves(otherEngine, 8);
+    engine.loadState(otherEngine.getState());
+
+    expect(recorder.getReplay()).toMatchObject({
+      initialBoard: otherEngine.getBoard().serialize(),
+      initialScore: otherEngine.getScore(),
+      moves: [],
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { type IGameBoard } from "../models/game-board";
+import { type GameReplay, type ReplayMove } from "../models/game-replay";
+import { type GameState } from "../serialization/game-state-serializer";
+import { type IGameEngine } from "./game-engine";
+
+/**
+ * Records the game played on a `IGameEngine` as a `GameReplay`.
+ */
+export interface IGameRecorder {
+  /**
+   * @returns {GameReplay|null} The game recorded so far, or `null` if the
+   * game has not started yet.
+   */
+  getReplay(): GameReplay | null;
+}
+
+/**
+ * Keeps the recording in line with the engine's history: undoing a move
+ * removes it from the recording and redoing it adds it back. Loading any
+ * other state, e.g. resuming a saved game, starts a new recording from it.
+ */
+export class GameRecorder implements IGameRecorder {
+  #initialState: Omit<GameReplay, "moves"> | null = null;
+
+  /** The move count of the engine when the recording started. */
+  #initialMoveCount = 0;
+
+  #moves: ReplayMove[] = [];
+
+  /** Moves that were undone, latest first, so that they can be redone. */
+  #undoneMoves: ReplayMove[] = [];
+
+  /**
+   * The serialized board after every recorded or undone move, in the
+   * order they were played, to tell undo and redo from loaded states.
+   */
+  #boardValues: string[] = [];
+
+  /**
+   * @param {IGameEngine} engine - The engine whose game to record. The
+   * recorder subscribes to it right away, so it has to be created before
+   * the game starts.
+   */
+  constructor(engine: IGameEngine) {
+    engine.on("start", () => this.#startRecording(engine.getState()));
+    engine.on("move", ({ moveResult, spawns }) => {
+      this.#moves.push({
+        direction: moveResult.direction,
+        spawns: spawns.map(({ coordinate, value }) => ({ coordinate, value })),
+      });
+      this.#undoneMoves = [];
+      this.#boardValues.length = this.#moves.length;
+      this.#boardValues.push(this.#getBoardValues(engine.getBoard()));
+    });
+    engine.on("restore", ({ state }) => this.#onRestore(state));
+  }
+
+  getReplay(): GameReplay | null {
+    return (
+      this.#initialState && { ...this.#initialState, moves: [...this.#moves] }
+    );
+  }
+
+  #onRestore(state: GameState) {
+    if (!this.#initialState) return;
+
+    const moveIndex = state.moveCount - this.#initialMoveCount;
+    const recordedMoveCount = this.#moves.length + this.#undoneMoves.length;
+
+    if (
+      moveIndex < 0 ||
+      moveIndex > recordedMoveCount ||
+      this.#boardValues[moveIndex] !== this.#getBoardValues(state.board)
+    ) {
+      this.#startRecording(state);
+      return;
+    }
+
+    if (moveIndex < this.#moves.length) {
+      this.#undoneMoves.unshift(...this.#moves.splice(moveIndex));
+    } else {
+      this.#moves.push(
+        ...this.#undoneMoves.splice(0, moveIndex - this.#moves.length)
+      );
+    }
+  }
+
+  #startRecording(state: GameState) {
+    this.#initialState = {
+      initialBoard: state.board.serialize(),
+      initialScore: state.score,
+      randomState: state.randomState,
+    };
+    this.#initialMoveCount = state.moveCount;
+    this.#moves = [];
+    this.#undoneMoves = [];
+    this.#boardValues = [this.#getBoardValues(state.board)];
+  }
+
+  #getBoardValues(board: IGameBoard) {
+    return JSON.stringify(board.serialize().values);
+  }
+}
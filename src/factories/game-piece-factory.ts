@@ -1,4 +1,11 @@
 import { GamePiece, type IGamePiece } from "../models/game-piece";
+import {
+  defaultSpawnPolicy,
+  pickSpawnValue,
+  type SpawnPolicy,
+  validateSpawnPolicy,
+} from "../models/spawn-policy";
+import { type IRandomSource } from "../random/random-source";
 
 /**
  * Defines a factory interface for creating game pieces.
@@ -14,10 +21,42 @@ export interface IGamePieceFactory {
    * @returns {IGamePiece} A newly created game piece.
    */
   createPiece(value?: number): IGamePiece;
+
+  /**
+   * @returns {SpawnPolicy} The rules for new pieces, shared with the
+   * engine that places them and the agents that anticipate them.
+   */
+  getSpawnPolicy(): SpawnPolicy;
 }
 
 export class DefaultGamePieceFactory implements IGamePieceFactory {
+  #randomSource: IRandomSource;
+
+  #spawnPolicy: SpawnPolicy;
+
+  /**
+   * @param {IRandomSource} randomSource - Decides the value of pieces created
+   * without one.
+   * @param {SpawnPolicy} [spawnPolicy] - The values of new pieces and their
+   * probabilities. Defaults to `2` with a 90% chance, `4` otherwise.
+   * @throws {Error} If the spawn policy is invalid.
+   */
+  constructor(
+    randomSource: IRandomSource,
+    spawnPolicy: SpawnPolicy = defaultSpawnPolicy
+  ) {
+    validateSpawnPolicy(spawnPolicy);
+    this.#randomSource = randomSource;
+    this.#spawnPolicy = spawnPolicy;
+  }
+
   createPiece(value?: number): IGamePiece {
-    return new GamePiece(value);
+    return new GamePiece(
+      value ?? pickSpawnValue(this.#spawnPolicy, this.#randomSource)
+    );
+  }
+
+  getSpawnPolicy(): SpawnPolicy {
+    return this.#spawnPolicy;
   }
 }
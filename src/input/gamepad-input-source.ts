@@ -0,0 +1,164 @@
+import { InputAction } from "./input-action";
+import { type IInputSource } from "./input-source";
+
+/**
+ * Maps button indices of the standard gamepad layout to actions.
+ * @see https://w3c.github.io/gamepad/#remapping
+ */
+const buttonBindings: Record<number, InputAction> = {
+  2: InputAction.Hint,
+  4: InputAction.Undo,
+  5: InputAction.Redo,
+  12: InputAction.ShiftUp,
+  13: InputAction.ShiftDown,
+  14: InputAction.ShiftLeft,
+  15: InputAction.ShiftRight,
+};
+
+/**
+ * Reports d-pad, left stick and shoulder button presses of connected
+ * gamepads as actions, using the Gamepad API.
+ *
+ * Gamepads don't emit events for their inputs, so their state is polled
+ * on every animation frame while at least one is connected. An action is
+ * reported once per press, when a button is pressed or the stick is pushed
+ * past the threshold. Inputs held down while attaching are not reported.
+ */
+export class GamepadInputSource implements IInputSource {
+  #stickThreshold: number;
+
+  #onAction: ((action: InputAction) => void) | null = null;
+
+  #animationFrameId: number | null = null;
+
+  #pressedActions = new Set<InputAction>();
+
+  #boundOnGamepadConnected: () => void;
+
+  #boundOnGamepadDisconnected: () => void;
+
+  /**
+   * @param {number} stickThreshold - How far (between `0` and `1`) the left
+   * stick has to be pushed along an axis to trigger a shift.
+   * @throws {Error} If the threshold is not above `0` and at most `1`.
+   */
+  constructor(stickThreshold: number) {
+    if (!(stickThreshold > 0 && stickThreshold <= 1)) {
+      throw new Error(`Invalid stick threshold: ${stickThreshold}.`);
+    }
+
+    this.#stickThreshold = stickThreshold;
+    this.#boundOnGamepadConnected = this.#onGamepadConnected.bind(this);
+    this.#boundOnGamepadDisconnected = this.#onGamepadDisconnected.bind(this);
+  }
+
+  attach(onAction: (action: InputAction) => void) {
+    this.detach();
+
+    if (typeof navigator.getGamepads !== "function") return;
+
+    this.#onAction = onAction;
+    this.#pressedActions = this.#getActiveActions();
+    window.addEventListener("gamepadconnected", this.#boundOnGamepadConnected);
+    window.addEventListener(
+      "gamepaddisconnected",
+      this.#boundOnGamepadDisconnected
+    );
+
+    if (this.#hasGamepads()) {
+      this.#startPolling();
+    }
+  }
+
+  detach() {
+    window.removeEventListener(
+      "gamepadconnected",
+      this.#boundOnGamepadConnected
+    );
+    window.removeEventListener(
+      "gamepaddisconnected",
+      this.#boundOnGamepadDisconnected
+    );
+    this.#onAction = null;
+    this.#pressedActions.clear();
+    this.#stopPolling();
+  }
+
+  #onGamepadConnected() {
+    this.#startPolling();
+  }
+
+  #onGamepadDisconnected() {
+    if (!this.#hasGamepads()) {
+      this.#stopPolling();
+      this.#pressedActions.clear();
+    }
+  }
+
+  #hasGamepads(): boolean {
+    return navigator.getGamepads().some((gamepad) => gamepad !== null);
+  }
+
+  #startPolling() {
+    if (this.#animationFrameId !== null) return;
+
+    this.#animationFrameId = requestAnimationFrame(() => this.#poll());
+  }
+
+  #stopPolling() {
+    if (this.#animationFrameId !== null) {
+      cancelAnimationFrame(this.#animationFrameId);
+      this.#animationFrameId = null;
+    }
+  }
+
+  #poll() {
+    const activeActions = this.#getActiveActions();
+
+    for (const action of activeActions) {
+      if (!this.#pressedActions.has(action)) {
+        this.#onAction?.(action);
+      }
+    }
+
+    this.#pressedActions = activeActions;
+    this.#animationFrameId = requestAnimationFrame(() => this.#poll());
+  }
+
+  #getActiveActions(): Set<InputAction> {
+    const activeActions = new Set<InputAction>();
+
+    for (const gamepad of navigator.getGamepads()) {
+      if (!gamepad) continue;
+
+      for (const [buttonIndex, action] of Object.entries(buttonBindings)) {
+        if (gamepad.buttons[Number(buttonIndex)]?.pressed) {
+          activeActions.add(action);
+        }
+      }
+
+      const stickAction = this.#getStickAction(
+        gamepad.axes[0] ?? 0,
+        gamepad.axes[1] ?? 0
+      );
+
+      if (stickAction !== null) {
+        activeActions.add(stickAction);
+      }
+    }
+
+    return activeActions;
+  }
+
+  #getStickAction(x: number, y: number): InputAction | null {
+    if (Math.max(Math.abs(x), Math.abs(y)) < this.#stickThreshold) {
+      return null;
+    }
+
+    if (Math.abs(x) > Math.abs(y)) {
+      return x > 0 ? InputAction.ShiftRight : InputAction.ShiftLeft;
+    }
+
+    return y > 0 ? InputAction.ShiftDown : InputAction.ShiftUp;
+  }
+}
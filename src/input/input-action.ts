@@ -0,0 +1,53 @@
+import { ShiftDirection } from "../common/shift-direction";
+
+/**
+ * An action the player can trigger through any input source.
+ */
+export enum InputAction {
+  ShiftDown,
+  ShiftLeft,
+  ShiftRight,
+  ShiftUp,
+  Undo,
+  Redo,
+  Hint,
+}
+
+export const InputActionMap = Object.values(InputAction).filter(
+  (value) => typeof value === "string"
+);
+
+/**
+ * Returns the input action that shifts the board in the given direction.
+ */
+export function getShiftAction(direction: ShiftDirection): InputAction {
+  switch (direction) {
+    case ShiftDirection.Down:
+      return InputAction.ShiftDown;
+    case ShiftDirection.Left:
+      return InputAction.ShiftLeft;
+    case ShiftDirection.Right:
+      return InputAction.ShiftRight;
+    case ShiftDirection.Up:
+      return InputAction.ShiftUp;
+  }
+}
+
+/**
+ * Returns the direction an input action shifts the board in,
+ * or `null` if the action is not a shift.
+ */
+export function getShiftDirection(action: InputAction): ShiftDirection | null {
+  switch (action) {
+    case InputAction.ShiftDown:
+      return ShiftDirection.Down;
+    case InputAction.ShiftLeft:
+      return ShiftDirection.Left;
+    case InputAction.ShiftRight:
+      return ShiftDirection.Right;
+    case InputAction.ShiftUp:
+      return ShiftDirection.Up;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,20 @@
+import { type InputAction } from "./input-action";
+
+/**
+ * Translates raw input events of a single kind of device (keyboard,
+ * touch screen, gamepad…) into `InputAction`s.
+ */
+export interface IInputSource {
+  /**
+   * Starts listening for input. Attaching an already attached source
+   * replaces the previous handler.
+   *
+   * @param {(action: InputAction) => void} onAction - Called for every action triggered.
+   */
+  attach(onAction: (action: InputAction) => void): void;
+
+  /**
+   * Stops listening for input. Does nothing if the source is not attached.
+   */
+  detach(): void;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { InputAction } from "./input-action";
+import {
+  arrowKeyBindings,
+  getKeysForAction,
+  rebindKey,
+  vimKeyBindings,
+} from "./key-bindings";
+
+describe("rebindKey", () => {
+  it("binds the key to the action", () => {
+    const bindings = rebindKey(arrowKeyBindings, "w", InputAction.ShiftUp);
+
+    expect(bindings["w"]).toBe(InputAction.ShiftUp);
+  });
+
+  it("removes the previous keys of the action", () => {
+    const bindings = rebindKey(arrowKeyBindings, "w", InputAction.ShiftUp);
+
+    expect(getKeysForAction(bindings, InputAction.ShiftUp)).toEqual(["w"]);
+  });
+
+  it("removes the previous binding of the key", () => {
+    const bindings = rebindKey(vimKeyBindings, "h", InputAction.Hint);
+
+    expect(getKeysForAction(bindings, InputAction.ShiftLeft)).toEqual([]);
+    expect(getKeysForAction(bindings, InputAction.Hint)).toEqual(["h"]);
+  });
+
+  it("does not modify the provided bindings", () => {
+    rebindKey(arrowKeyBindings, "w", InputAction.ShiftUp);
+
+    expect(arrowKeyBindings["ArrowUp"]).toBe(InputAction.ShiftUp);
+    expect(arrowKeyBindings["w"]).toBeUndefined();
+  });
+});
+
+describe("getKeysForAction", () => {
+  it("returns every key bound to the action", () => {
+    expect(getKeysForAction(arrowKeyBindings, InputAction.Redo)).toEqual([
+      "Z",
+      "y",
+      "Y",
+    ]);
+  });
+});
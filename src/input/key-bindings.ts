@@ -0,0 +1,83 @@
+import { InputAction } from "./input-action";
+
+/**
+ * Maps `KeyboardEvent.key` values to the actions they trigger.
+ */
+export type KeyBindings = Record<string, InputAction>;
+
+export const arrowKeyBindings: KeyBindings = {
+  ArrowDown: InputAction.ShiftDown,
+  ArrowLeft: InputAction.ShiftLeft,
+  ArrowRight: InputAction.ShiftRight,
+  ArrowUp: InputAction.ShiftUp,
+  z: InputAction.Undo,
+  Z: InputAction.Redo,
+  y: InputAction.Redo,
+  Y: InputAction.Redo,
+  "?": InputAction.Hint,
+};
+
+export const wasdKeyBindings: KeyBindings = {
+  s: InputAction.ShiftDown,
+  a: InputAction.ShiftLeft,
+  d: InputAction.ShiftRight,
+  w: InputAction.ShiftUp,
+  z: InputAction.Undo,
+  Z: InputAction.Redo,
+  y: InputAction.Redo,
+  Y: InputAction.Redo,
+  "?": InputAction.Hint,
+};
+
+export const vimKeyBindings: KeyBindings = {
+  j: InputAction.ShiftDown,
+  h: InputAction.ShiftLeft,
+  l: InputAction.ShiftRight,
+  k: InputAction.ShiftUp,
+  u: InputAction.Undo,
+  r: InputAction.Redo,
+  "?": InputAction.Hint,
+};
+
+export const keyBindingPresets = {
+  Arrows: arrowKeyBindings,
+  WASD: wasdKeyBindings,
+  Vim: vimKeyBindings,
+};
+
+/**
+ * Binds a key to an action. The key loses its previous binding, and the
+ * action loses all keys it was bound to before.
+ *
+ * @param {KeyBindings} bindings - The bindings to update, left unchanged.
+ * @param {string} key - The `KeyboardEvent.key` value to bind.
+ * @param {InputAction} action - The action the key should trigger.
+ * @returns {KeyBindings} The updated bindings.
+ */
+export function rebindKey(
+  bindings: KeyBindings,
+  key: string,
+  action: InputAction
+): KeyBindings {
+  const updatedBindings: KeyBindings = {};
+
+  for (const [boundKey, boundAction] of Object.entries(bindings)) {
+    if (boundAction !== action && boundKey !== key) {
+      updatedBindings[boundKey] = boundAction;
+    }
+  }
+
+  updatedBindings[key] = action;
+
+  return updatedBindings;
+}
+
+/**
+ * Returns all keys that trigger the given action.
+ */
+export function getKeysForAction(
+  bindings: KeyBindings,
+  action: InputAction
+): string[] {
+  return Object.keys(bindings).filter((key) => bindings[key] === action);
+}
@@ -0,0 +1,58 @@
+import { type InputAction } from "./input-action";
+import { type IInputSource } from "./input-source";
+import { type KeyBindings } from "./key-bindings";
+
+/**
+ * Reports key presses on a target as the actions they are bound to.
+ */
+export class KeyboardInputSource implements IInputSource {
+  #target: EventTarget;
+
+  #bindings: KeyBindings;
+
+  #onAction: ((action: InputAction) => void) | null = null;
+
+  #boundOnKeyDown: (event: Event) => void;
+
+  /**
+   * @param {EventTarget} target - The target to listen for `keydown` events on.
+   * @param {KeyBindings} bindings - The initial key bindings.
+   */
+  constructor(target: EventTarget, bindings: KeyBindings) {
+    this.#target = target;
+    this.#bindings = bindings;
+    this.#boundOnKeyDown = this.#onKeyDown.bind(this);
+  }
+
+  getBindings(): KeyBindings {
+    return this.#bindings;
+  }
+
+  setBindings(bindings: KeyBindings) {
+    this.#bindings = bindings;
+  }
+
+  attach(onAction: (action: InputAction) => void) {
+    this.detach();
+    this.#onAction = onAction;
+    this.#target.addEventListener("keydown", this.#boundOnKeyDown);
+  }
+
+  detach() {
+    this.#onAction = null;
+    this.#target.removeEventListener("keydown", this.#boundOnKeyDown);
+  }
+
+  #onKeyDown(event: Event) {
+    const { key, ctrlKey, metaKey, altKey } = event as KeyboardEvent;
+
+    // Leave browser and system shortcuts alone.
+    if (ctrlKey || metaKey || altKey) return;
+
+    if (!Object.hasOwn(this.#bindings, key)) return;
+
+    // Prevents arrow keys and the space bar from scrolling the page.
+    event.preventDefault();
+    this.#onAction?.(this.#bindings[key]);
+  }
+}
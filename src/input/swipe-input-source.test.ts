@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { ShiftDirection } from "../common/shift-direction";
+import { getSwipeDirection } from "./swipe-input-source";
+
+const options = { minDistance: 30, angleTolerance: 30 };
+
+describe("getSwipeDirection", () => {
+  it.each([
+    [100, 0, ShiftDirection.Right],
+    [-100, 0, ShiftDirection.Left],
+    [0, 100, ShiftDirection.Down],
+    [0, -100, ShiftDirection.Up],
+    [100, 40, ShiftDirection.Right],
+    [-30, -80, ShiftDirection.Up],
+  ])("detects a swipe of (%d, %d) as %s", (deltaX, deltaY, expected) => {
+    expect(getSwipeDirection(deltaX, deltaY, options)).toBe(expected);
+  });
+
+  it("ignores movements shorter than the minimum distance", () => {
+    expect(getSwipeDirection(20, 10, options)).toBeNull();
+  });
+
+  it("ignores taps", () => {
+    expect(getSwipeDirection(0, 0, options)).toBeNull();
+    expect(
+      getSwipeDirection(0, 0, { minDistance: 0, angleTolerance: 30 })
+    ).toBeNull();
+  });
+
+  it("ignores movements outside of the angle tolerance", () => {
+    expect(getSwipeDirection(100, 100, options)).toBeNull();
+    expect(getSwipeDirection(100, 70, options)).toBeNull();
+  });
+
+  it("accepts diagonal movements with a wide enough tolerance", () => {
+    expect(
+      getSwipeDirection(100, 90, { minDistance: 30, angleTolerance: 45 })
+    ).toBe(ShiftDirection.Right);
+  });
+});
@@ -0,0 +1,138 @@
+import { ShiftDirection } from "../common/shift-direction";
+import { getShiftAction, type InputAction } from "./input-action";
+import { type IInputSource } from "./input-source";
+
+export type SwipeOptions = {
+  /** The minimum distance in pixels a pointer has to travel. */
+  minDistance: number;
+  /**
+   * The maximum angle in degrees between the swipe and the nearest axis.
+   * Swipes that are more diagonal than this are ignored.
+   */
+  angleTolerance: number;
+};
+
+/**
+ * Determines the direction of a swipe from the distance a pointer travelled.
+ *
+ * @param {number} deltaX - The horizontal distance, positive to the right.
+ * @param {number} deltaY - The vertical distance, positive downwards.
+ * @param {SwipeOptions} options - The thresholds a swipe has to satisfy.
+ * @returns {ShiftDirection|null} The direction of the swipe, or `null`
+ * if the movement was too short or too diagonal.
+ */
+export function getSwipeDirection(
+  deltaX: number,
+  deltaY: number,
+  options: SwipeOptions
+): ShiftDirection | null {
+  const absoluteX = Math.abs(deltaX);
+  const absoluteY = Math.abs(deltaY);
+  const distance = Math.hypot(deltaX, deltaY);
+
+  // A tap has no direction, whatever the minimum distance.
+  if (distance === 0 || distance < options.minDistance) return null;
+
+  const angleToAxis =
+    (Math.atan2(
+      Math.min(absoluteX, absoluteY),
+      Math.max(absoluteX, absoluteY)
+    ) *
+      180) /
+    Math.PI;
+
+  if (angleToAxis > options.angleTolerance) return null;
+
+  if (absoluteX > absoluteY) {
+    return deltaX > 0 ? ShiftDirection.Right : ShiftDirection.Left;
+  }
+
+  return deltaY > 0 ? ShiftDirection.Down : ShiftDirection.Up;
+}
+
+/**
+ * Detects swipes and pointer drags on an element and reports them
+ * as shift actions. Works with touch, pen and mouse input.
+ *
+ * The element should have `touch-action: none` applied, so that
+ * vertical swipes don't scroll the page.
+ */
+export class SwipeInputSource implements IInputSource {
+  #element: HTMLElement | null;
+
+  #options: SwipeOptions;
+
+  #onAction: ((action: InputAction) => void) | null = null;
+
+  #start: { pointerId: number; x: number; y: number } | null = null;
+
+  #boundOnPointerDown: (event: PointerEvent) => void;
+  #boundOnPointerUp: (event: PointerEvent) => void;
+  #boundOnPointerCancel: () => void;
+
+  /**
+   * @param {HTMLElement|null} element - The element to detect swipes on.
+   * If `null`, no swipes will be detected.
+   * @param {SwipeOptions} options - The thresholds a swipe has to satisfy.
+   */
+  constructor(element: HTMLElement | null, options: SwipeOptions) {
+    this.#element = element;
+    this.#options = options;
+    this.#boundOnPointerDown = this.#onPointerDown.bind(this);
+    this.#boundOnPointerUp = this.#onPointerUp.bind(this);
+    this.#boundOnPointerCancel = this.#onPointerCancel.bind(this);
+  }
+
+  attach(onAction: (action: InputAction) => void) {
+    this.detach();
+    this.#onAction = onAction;
+    this.#element?.addEventListener("pointerdown", this.#boundOnPointerDown);
+    this.#element?.addEventListener("pointerup", this.#boundOnPointerUp);
+    this.#element?.addEventListener(
+      "pointercancel",
+      this.#boundOnPointerCancel
+    );
+  }
+
+  detach() {
+    this.#onAction = null;
+    this.#start = null;
+    this.#element?.removeEventListener("pointerdown", this.#boundOnPointerDown);
+    this.#element?.removeEventListener("pointerup", this.#boundOnPointerUp);
+    this.#element?.removeEventListener(
+      "pointercancel",
+      this.#boundOnPointerCancel
+    );
+  }
+
+  #onPointerDown(event: PointerEvent) {
+    if (!event.isPrimary) return;
+
+    this.#start = {
+      pointerId: event.pointerId,
+      x: event.clientX,
+      y: event.clientY,
+    };
+    // Keep receiving the pointer's events when it leaves the element.
+    this.#element?.setPointerCapture(event.pointerId);
+  }
+
+  #onPointerUp(event: PointerEvent) {
+    if (!this.#start || this.#start.pointerId !== event.pointerId) return;
+
+    const direction = getSwipeDirection(
+      event.clientX - this.#start.x,
+      event.clientY - this.#start.y,
+      this.#options
+    );
+    this.#start = null;
+
+    if (direction !== null) {
+      this.#onAction?.(getShiftAction(direction));
+    }
+  }
+
+  #onPointerCancel() {
+    this.#start = null;
+  }
+}
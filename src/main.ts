@@ -3,25 +3,177 @@ import { GameController } from "./controllers/game-controller";
 import { DefaultGamePieceFactory } from "./factories/game-piece-factory";
 import { GameRenderer } from "./renderers/game-renderer";
 import config from "./configs";
-import { GameAgent } from "./ai/game-agent";
+import { WorkerGameAgent } from "./ai/worker-game-agent";
+import { LocalStorageBestScoreStorage } from "./storage/best-score-storage";
+import { LocalStorageSavedGameStorage } from "./storage/saved-game-storage";
+import { GameStateSerializer } from "./serialization/game-state-serializer";
+import { GameEngine } from "./engine/game-engine";
+import { SwipeInputSource } from "./input/swipe-input-source";
+import { KeyboardInputSource } from "./input/keyboard-input-source";
+import { GamepadInputSource } from "./input/gamepad-input-source";
+import { arrowKeyBindings } from "./input/key-bindings";
+import { KeyBindingsController } from "./controllers/key-bindings-controller";
+import { KeyBindingsRenderer } from "./renderers/key-bindings-renderer";
+import { LocalStorageKeyBindingsStorage } from "./storage/key-bindings-storage";
+import { AutoplayController } from "./controllers/autoplay-controller";
+import { AutoplayRenderer } from "./renderers/autoplay-renderer";
+import { AgentStatusRenderer } from "./renderers/agent-status-renderer";
+import { HintRenderer } from "./renderers/hint-renderer";
+import { HeuristicWeightsController } from "./controllers/heuristic-weights-controller";
+import { HeuristicWeightsRenderer } from "./renderers/heuristic-weights-renderer";
+import { LocalStorageHeuristicWeightsStorage } from "./storage/heuristic-weights-storage";
+import { AgentSelectorController } from "./controllers/agent-selector-controller";
+import { AgentSelectorRenderer } from "./renderers/agent-selector-renderer";
+import { gameAgentRegistry } from "./ai/game-agent-registry";
+import { GameRecorder } from "./engine/game-recorder";
+import { ReplayController } from "./controllers/replay-controller";
+import { ReplayRenderer } from "./renderers/replay-renderer";
+import { GameReplaySerializer } from "./serialization/game-replay-serializer";
+import { ChallengeController } from "./controllers/challenge-controller";
+import { ChallengeRenderer } from "./renderers/challenge-renderer";
+import { LocalStorageChallengeResultsStorage } from "./storage/challenge-results-storage";
 
-const gamePieceFactory = new DefaultGamePieceFactory();
+const gamePieceFactory = new DefaultGamePieceFactory(
+  config.randomSource,
+  config.spawnPolicy
+);
 
-const controller = new GameController(
-  new GameBoard(config.gameBoardGridSize),
+const engine = new GameEngine(
+  new GameBoard(config.gameBoardShape, config.randomSource, config.mergeRule),
   gamePieceFactory,
+  config.randomSource,
+  {
+    gameWinValue: config.gameWinValue,
+    startingPieceCount: config.startingPieceCount,
+    historyLimit: config.gameHistoryLimit,
+  }
+);
+
+// Subscribes to the engine before the game starts, to record the
+// starting pieces.
+const gameRecorder = new GameRecorder(engine);
+
+const gameAgent = new WorkerGameAgent(
+  () =>
+    new Worker(new URL("./ai/game-agent.worker.ts", import.meta.url), {
+      type: "module",
+    }),
+  {
+    expectimax: {
+      searchDepth: config.gameAgentSearchDepth,
+      timeBudget: config.gameAgentTimeBudget,
+      targetValue: config.gameWinValue,
+    },
+    monteCarlo: {
+      rolloutCount: config.monteCarloRolloutCount,
+      rolloutLength: config.monteCarloRolloutLength,
+    },
+    // Resolved here, since the worker resolves relative URLs against its
+    // own script.
+    nTupleWeightsUrl: new URL(config.nTupleWeightsUrl, document.baseURI).href,
+    seed: config.randomSource.nextInt(0, 2 ** 31 - 1),
+    spawnPolicy: config.spawnPolicy,
+  }
+);
+
+const agentStatusRenderer = new AgentStatusRenderer(
+  document.getElementById("agent-status")
+);
+
+const keyboardInputSource = new KeyboardInputSource(document, arrowKeyBindings);
+
+const keyBindingsController = new KeyBindingsController(
+  keyboardInputSource,
+  new KeyBindingsRenderer(document.getElementById(config.keyBindingsId)),
+  new LocalStorageKeyBindingsStorage(config.keyBindingsStorageKey),
+  document.getElementById(config.keyBindingsId)
+);
+
+const controller = new GameController(
+  engine,
   new GameRenderer(
     document.getElementById(config.gameBoardId),
-    document.getElementById(config.messageBoardId)
+    document.getElementById(config.messageBoardId),
+    document.getElementById(config.scoreBoardId)
+  ),
+  gameAgent,
+  agentStatusRenderer,
+  new HintRenderer(document.getElementById("hint-overlay")),
+  new LocalStorageBestScoreStorage(config.bestScoreStorageKey),
+  new LocalStorageSavedGameStorage(config.savedGameStorageKey),
+  new GameStateSerializer(gamePieceFactory, config.randomSource),
+  [
+    keyboardInputSource,
+    new SwipeInputSource(document.getElementById(config.gameBoardId), {
+      minDistance: config.swipeMinDistance,
+      angleTolerance: config.swipeAngleTolerance,
+    }),
+    new GamepadInputSource(config.gamepadStickThreshold),
+  ],
+  document.getElementById(config.messageBoardId)
+);
+
+const autoplayController = new AutoplayController(
+  engine,
+  controller,
+  gameAgent,
+  new AutoplayRenderer(
+    document.getElementById("autoplay-toggle"),
+    document.getElementById("autoplay-decision")
   ),
-  new GameAgent(gamePieceFactory, {
-    searchDepth: config.gameAgentSearchDepth,
-    targetValue: config.gameWinValue,
-  }),
+  agentStatusRenderer,
   {
-    gameWinValue: config.gameWinValue,
-    startingPieceCount: config.startingPieceCount,
+    movesPerSecond: config.autoplayMovesPerSecond,
   }
 );
 
+if (config.showHeuristicWeightsPanel) {
+  document.getElementById("heuristic-weights-panel")?.removeAttribute("hidden");
+
+  new HeuristicWeightsController(
+    gameAgent,
+    new HeuristicWeightsRenderer(
+      document.getElementById(config.heuristicWeightsId)
+    ),
+    new LocalStorageHeuristicWeightsStorage(config.heuristicWeightsStorageKey),
+    document.getElementById(config.heuristicWeightsId)
+  ).init();
+}
+
+new AgentSelectorController(
+  gameAgent,
+  new AgentSelectorRenderer(document.getElementById("agent-selector")),
+  gameAgentRegistry.getAll(),
+  document.getElementById("agent-selector")
+).init();
+
+new ReplayController(
+  gameRecorder,
+  new GameReplaySerializer(),
+  new ReplayRenderer(document.getElementById("replay-panel")),
+  new GameRenderer(document.getElementById("replay-board"), null, null),
+  gamePieceFactory,
+  config.randomSource,
+  document.getElementById("replay-panel"),
+  {
+    movesPerSecond: config.autoplayMovesPerSecond,
+  }
+).init();
+
+new ChallengeController(
+  engine,
+  controller,
+  new ChallengeRenderer(
+    document.getElementById("challenge-modes"),
+    document.getElementById("challenge-progress"),
+    document.getElementById("daily-result")
+  ),
+  new LocalStorageChallengeResultsStorage(config.challengeResultsStorageKey),
+  config.challengeModes,
+  document.getElementById("challenge-modes"),
+  document.getElementById("daily-result")
+).init();
+
+keyBindingsController.init();
 controller.startGame();
+autoplayController.init();
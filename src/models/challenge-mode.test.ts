@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { GameStatus } from "../common/game-status";
+import {
+  allowsAssistance,
+  allowsKeepPlaying,
+  type ChallengeOutcome,
+  getChallengeKey,
+  getChallengeResult,
+  getChallengeWinValue,
+  isBetterChallengeResult,
+} from "./challenge-mode";
+
+const outcome: ChallengeOutcome = {
+  status: GameStatus.Won,
+  score: 1200,
+  moveCount: 150,
+  maxValue: 256,
+};
+
+describe("getChallengeWinValue", () => {
+  it("wins classic games at the win value and puzzles at their target", () => {
+    expect(getChallengeWinValue({ id: "classic" }, 2048)).toBe(2048);
+    expect(
+      getChallengeWinValue({ id: "fewest-moves", targetValue: 256 }, 2048)
+    ).toBe(256);
+    expect(
+      getChallengeWinValue({ id: "time-attack", timeLimit: 60000 }, 2048)
+    ).toBeNull();
+    expect(
+      getChallengeWinValue({ id: "limited-moves", moveLimit: 100 }, 2048)
+    ).toBeNull();
+  });
+});
+
+describe("getChallengeKey", () => {
+  it("keys challenges by their mode and its limit or target", () => {
+    expect(getChallengeKey({ id: "classic" })).toBe("classic");
+    expect(getChallengeKey({ id: "time-attack", timeLimit: 60000 })).toBe(
+      "time-attack:60000"
+    );
+    expect(getChallengeKey({ id: "limited-moves", moveLimit: 100 })).toBe(
+      "limited-moves:100"
+    );
+    expect(getChallengeKey({ id: "fewest-moves", targetValue: 256 })).toBe(
+      "fewest-moves:256"
+    );
+  });
+
+  it("keys the same mode with another limit apart", () => {
+    expect(getChallengeKey({ id: "limited-moves", moveLimit: 100 })).not.toBe(
+      getChallengeKey({ id: "limited-moves", moveLimit: 200 })
+    );
+  });
+});
+
+describe("allowsAssistance", () => {
+  it("allows assistance in classic games only", () => {
+    expect(allowsAssistance({ id: "classic" })).toBe(true);
+    expect(allowsAssistance({ id: "time-attack", timeLimit: 60000 })).toBe(
+      false
+    );
+    expect(allowsAssistance({ id: "limited-moves", moveLimit: 100 })).toBe(
+      false
+    );
+    expect(allowsAssistance({ id: "fewest-moves", targetValue: 256 })).toBe(
+      false
+    );
+    expect(allowsAssistance({ id: "daily", date: "2026-10-19" })).toBe(false);
+  });
+});
+
+describe("allowsKeepPlaying", () => {
+  it("lets only classic games go on after the win", () => {
+    expect(allowsKeepPlaying({ id: "classic" })).toBe(true);
+    expect(allowsKeepPlaying({ id: "fewest-moves", targetValue: 256 })).toBe(
+      false
+    );
+    expect(allowsKeepPlaying({ id: "daily", date: "2026-10-19" })).toBe(false);
+  });
+});
+
+describe("getChallengeResult", () => {
+  it("judges every challenge by its own measure", () => {
+    expect(
+      getChallengeResult({ id: "time-attack", timeLimit: 60000 }, outcome)
+    ).toBe(256);
+    expect(
+      getChallengeResult({ id: "limited-moves", moveLimit: 100 }, outcome)
+    ).toBe(1200);
+    expect(
+      getChallengeResult({ id: "fewest-moves", targetValue: 256 }, outcome)
+    ).toBe(150);
+  });
+
+  it("has no result for classic games and missed targets", () => {
+    expect(getChallengeResult({ id: "classic" }, outcome)).toBeNull();
+    expect(
+      getChallengeResult(
+        { id: "fewest-moves", targetValue: 256 },
+        { ...outcome, status: GameStatus.Lost }
+      )
+    ).toBeNull();
+  });
+});
+
+describe("isBetterChallengeResult", () => {
+  it("prefers fewer moves, and higher values and scores", () => {
+    expect(isBetterChallengeResult("fewest-moves", 90, 100)).toBe(true);
+    expect(isBetterChallengeResult("fewest-moves", 110, 100)).toBe(false);
+    expect(isBetterChallengeResult("time-attack", 512, 256)).toBe(true);
+    expect(isBetterChallengeResult("limited-moves", 800, 1200)).toBe(false);
+  });
+
+  it("accepts any first result", () => {
+    expect(isBetterChallengeResult("fewest-moves", 1000, undefined)).toBe(true);
+  });
+});
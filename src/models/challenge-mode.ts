@@ -0,0 +1,151 @@
+import { GameStatus } from "../common/game-status";
+
+/**
+ * The rules a game is played by: the classic game, or a challenge with
+ * an end condition and a result of its own.
+ */
+export type ChallengeMode =
+  | { id: "classic" }
+  /** Reach the highest value before the time, in milliseconds, is up. */
+  | { id: "time-attack"; timeLimit: number }
+  /** Reach the highest score before the moves run out. */
+  | { id: "limited-moves"; moveLimit: number }
+  /** Reach the target value in as few moves as possible. */
+  | { id: "fewest-moves"; targetValue: number }
+  /**
+   * A classic game whose pieces are decided by the day, as `YYYY-MM-DD`,
+   * so that everyone playing it on that day gets the same ones.
+   */
+  | { id: "daily"; date: string };
+
+export type ChallengeModeId = ChallengeMode["id"];
+
+export const classicChallengeMode: ChallengeMode = { id: "classic" };
+
+/**
+ * The best result reached in every mode that has one, by the key of the
+ * mode as returned by {@link getChallengeKey}.
+ */
+export type ChallengeResults = Partial<Record<string, number>>;
+
+/**
+ * What a finished game is judged by.
+ */
+export type ChallengeOutcome = {
+  status: GameStatus;
+  score: number;
+  moveCount: number;
+  /** The value of the highest piece on the board. */
+  maxValue: number;
+};
+
+/**
+ * @param {ChallengeMode} mode - The mode of the game.
+ * @returns {string} The key the results of the mode are kept under, e.g.
+ * `time-attack:60000`. It includes the limit or target of the mode, so
+ * that results reached under other rules are never compared.
+ */
+export function getChallengeKey(mode: ChallengeMode): string {
+  switch (mode.id) {
+    case "time-attack":
+      return `${mode.id}:${mode.timeLimit}`;
+    case "limited-moves":
+      return `${mode.id}:${mode.moveLimit}`;
+    case "fewest-moves":
+      return `${mode.id}:${mode.targetValue}`;
+    case "daily":
+      return `${mode.id}:${mode.date}`;
+    default:
+      return mode.id;
+  }
+}
+
+/**
+ * @param {ChallengeMode} mode - The mode of the game.
+ * @param {number} gameWinValue - The value that wins a classic game.
+ * @returns {number|null} The value that wins a game in this mode, or
+ * `null` if it cannot be won.
+ */
+export function getChallengeWinValue(
+  mode: ChallengeMode,
+  gameWinValue: number
+): number | null {
+  switch (mode.id) {
+    case "classic":
+    case "daily":
+      return gameWinValue;
+    case "fewest-moves":
+      return mode.targetValue;
+    default:
+      return null;
+  }
+}
+
+/**
+ * @param {ChallengeMode} mode - The mode of the game.
+ * @returns {boolean} `true` if undo, redo, hints and autoplay can be used.
+ * Challenges, daily ones included, are played without them, so that
+ * the results ranked or shared are the player's own.
+ */
+export function allowsAssistance(mode: ChallengeMode): boolean {
+  switch (mode.id) {
+    case "time-attack":
+    case "limited-moves":
+    case "fewest-moves":
+    case "daily":
+      return false;
+    default:
+      return true;
+  }
+}
+
+/**
+ * @param {ChallengeMode} mode - The mode of the game.
+ * @returns {boolean} `true` if a won game can go on. Only classic games
+ * can; reaching the target of a fewest-moves or daily game ends it.
+ */
+export function allowsKeepPlaying(mode: ChallengeMode): boolean {
+  return mode.id === "classic";
+}
+
+/**
+ * @param {ChallengeMode} mode - The mode the game was played in.
+ * @param {ChallengeOutcome} outcome - The end of the game.
+ * @returns {number|null} The result the mode ranks games by: the highest
+ * value of a time attack, the score of a limited-moves game, or the moves
+ * it took to reach the target. `null` for games without a result, i.e.
+ * classic games, whose best score is kept on its own, daily challenges,
+ * whose results are shared instead, and targets that were not reached.
+ */
+export function getChallengeResult(
+  mode: ChallengeMode,
+  outcome: ChallengeOutcome
+): number | null {
+  switch (mode.id) {
+    case "time-attack":
+      return outcome.maxValue;
+    case "limited-moves":
+      return outcome.score;
+    case "fewest-moves":
+      return outcome.status === GameStatus.Won ? outcome.moveCount : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * @param {ChallengeModeId} modeId - The mode both results were reached in.
+ * @param {number} result - A new result.
+ * @param {number|undefined} bestResult - The best result so far, if any.
+ * @returns {boolean} `true` if the new result beats the best one. Fewer
+ * moves are better, higher values and scores are.
+ */
+export function isBetterChallengeResult(
+  modeId: ChallengeModeId,
+  result: number,
+  bestResult: number | undefined
+): boolean {
+  if (bestResult === undefined) return true;
+
+  return modeId === "fewest-moves" ? result < bestResult : result > bestResult;
+}
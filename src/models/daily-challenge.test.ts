@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import {
+  formatDailyResult,
+  getDailyChallengeDate,
+  getDailySeed,
+} from "./daily-challenge";
+import { GameBoard } from "./game-board";
+
+const randomSource = new SeededRandomSource(1);
+const pieceFactory = new DefaultGamePieceFactory(randomSource);
+
+describe("getDailyChallengeDate", () => {
+  it("changes the day at midnight UTC", () => {
+    expect(getDailyChallengeDate(new Date("2026-10-19T23:59:59Z"))).toBe(
+      "2026-10-19"
+    );
+    expect(getDailyChallengeDate(new Date("2026-10-20T00:00:00Z"))).toBe(
+      "2026-10-20"
+    );
+  });
+});
+
+describe("getDailySeed", () => {
+  it("derives the same 32-bit seed from the same day", () => {
+    const seed = getDailySeed("2026-10-19");
+
+    expect(getDailySeed("2026-10-19")).toBe(seed);
+    expect(Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff).toBe(
+      true
+    );
+  });
+
+  it("derives different seeds from neighbouring days", () => {
+    expect(getDailySeed("2026-10-19")).not.toBe(getDailySeed("2026-10-20"));
+    expect(getDailySeed("2026-10-19")).not.toBe(getDailySeed("2026-11-19"));
+  });
+});
+
+describe("formatDailyResult", () => {
+  it("sums up the game and draws the board", () => {
+    const board = GameBoard.deserialize(
+      {
+        rowCount: 2,
+        columnCount: 3,
+        values: [
+          [2, 8, 2048],
+          [0, -1, 128],
+        ],
+      },
+      pieceFactory,
+      randomSource
+    );
+
+    expect(formatDailyResult("2026-10-19", board, 20512, 987)).toBe(
+      [
+        "2048 Daily 2026-10-19",
+        "Max tile 2048 · Score 20512 · 987 moves",
+        "🟫🟧🟦",
+        "⬜⬛🟨",
+      ].join("\n")
+    );
+  });
+});
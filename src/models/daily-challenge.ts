@@ -0,0 +1,83 @@
+import { type IGameBoard } from "./game-board";
+
+/**
+ * Every daily challenge starts with this many pieces, whatever the
+ * configured number, so that every player gets the same board.
+ */
+export const dailyStartingPieceCount = 2;
+
+/**
+ * The squares of the shared board, from the lowest ranks to the highest.
+ * Two ranks share a square, and the last square is used for every rank
+ * beyond.
+ */
+const rankSquares = ["🟫", "🟧", "🟥", "🟨", "🟩", "🟦"];
+
+/**
+ * @param {Date} now - The current time.
+ * @returns {string} The day of the daily challenge, as `YYYY-MM-DD`. Days
+ * change at midnight UTC, so that everyone plays the same challenge.
+ */
+export function getDailyChallengeDate(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * @param {string} date - The day of the challenge, as `YYYY-MM-DD`.
+ * @returns {number} The seed of the random source that decides the
+ * pieces of the day: the 32-bit FNV-1a hash of the date.
+ */
+export function getDailySeed(date: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let index = 0; index < date.length; index += 1) {
+    hash = Math.imul(hash ^ date.charCodeAt(index), 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Sums up a daily challenge in a few lines of text to share: the day,
+ * the highest piece, the score and the number of moves, followed by the
+ * final board drawn in coloured squares. Empty cells are white, and
+ * blocked cells black.
+ *
+ * @param {string} date - The day of the challenge.
+ * @param {IGameBoard} board - The board the game ended with.
+ * @param {number} score - The final score.
+ * @param {number} moveCount - The number of moves played.
+ * @returns {string} The result, one line per row of the board.
+ */
+export function formatDailyResult(
+  date: string,
+  board: IGameBoard,
+  score: number,
+  moveCount: number
+): string {
+  const mergeRule = board.getMergeRule();
+  const maxValue = board.findMaxValueGamePiece()?.value ?? 0;
+  const rows = board.serialize().values.map((row) =>
+    row
+      .map((value) => {
+        if (value === -1) return "⬛";
+        if (value === 0) return "⬜";
+
+        const rank = mergeRule.getRank(value);
+
+        return rankSquares[
+          Math.max(
+            0,
+            Math.min(rankSquares.length - 1, Math.floor((rank - 1) / 2))
+          )
+        ];
+      })
+      .join("")
+  );
+
+  return [
+    `2048 Daily ${date}`,
+    `Max tile ${maxValue} · Score ${score} · ${moveCount} moves`,
+    ...rows,
+  ].join("\n");
+}
@@ -0,0 +1,635 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { ShiftDirection } from "../common/shift-direction";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import { GameBoard, type IGameBoard } from "./game-board";
+import { type MergeRuleId } from "./merge-rule";
+
+const randomSource = new SeededRandomSource(1);
+const pieceFactory = new DefaultGamePieceFactory(randomSource);
+
+const directions = [
+  ShiftDirection.Down,
+  ShiftDirection.Left,
+  ShiftDirection.Right,
+  ShiftDirection.Up,
+];
+
+function createBoard(values: number[][], mergeRule: MergeRuleId = "classic") {
+  return GameBoard.deserialize(
+    {
+      rowCount: values.length,
+      columnCount: values[0].length,
+      values,
+      mergeRule,
+    },
+    pieceFactory,
+    randomSource
+  );
+}
+
+function getValues(board: IGameBoard) {
+  return board.serialize().values;
+}
+
+function sumValues(board: IGameBoard) {
+  return getValues(board)
+    .flat()
+    .reduce((sum, value) => sum + value, 0);
+}
+
+const valueArbitrary = fc.oneof(
+  { weight: 1, arbitrary: fc.constant(0) },
+  { weight: 2, arbitrary: fc.integer({ min: 1, max: 11 }).map((e) => 2 ** e) }
+);
+
+const gridArbitrary = fc.integer({ min: 2, max: 6 }).chain((size) =>
+  fc.array(fc.array(valueArbitrary, { minLength: size, maxLength: size }), {
+    minLength: size,
+    maxLength: size,
+  })
+);
+
+const fullGridArbitrary = fc
+  .integer({ min: 2, max: 4 })
+  .chain((size) =>
+    fc.array(
+      fc.array(fc.constantFrom(2, 4, 8), { minLength: size, maxLength: size }),
+      { minLength: size, maxLength: size }
+    )
+  );
+
+const directionArbitrary = fc.constantFrom(...directions);
+
+describe("GameBoard", () => {
+  describe("shift", () => {
+    it.each([
+      [
+        ShiftDirection.Left,
+        [
+          [2, 0, 0, 0],
+          [4, 0, 0, 0],
+        ],
+      ],
+      [
+        ShiftDirection.Right,
+        [
+          [0, 0, 0, 2],
+          [0, 0, 0, 4],
+        ],
+      ],
+    ])("moves pieces horizontally (%s)", (direction, expected) => {
+      const board = createBoard([
+        [0, 0, 2, 0],
+        [0, 4, 0, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ]);
+
+      const { hasMoved } = board.shift(direction);
+
+      expect(hasMoved).toBe(true);
+      expect(getValues(board).slice(0, 2)).toEqual(expected);
+    });
+
+    it.each([
+      [ShiftDirection.Up, [2, 4, 0, 0]],
+      [ShiftDirection.Down, [0, 0, 2, 4]],
+    ])("moves pieces vertically (%s)", (direction, expected) => {
+      const board = createBoard([
+        [0, 0, 0, 0],
+        [2, 0, 0, 0],
+        [0, 0, 0, 0],
+        [4, 0, 0, 0],
+      ]);
+
+      board.shift(direction);
+
+      expect(getValues(board).map((row) => row[0])).toEqual(expected);
+    });
+
+    it.each([
+      [[2, 2, 0, 0], ShiftDirection.Left, [4, 0, 0, 0]],
+      [[2, 2, 2, 0], ShiftDirection.Left, [4, 2, 0, 0]],
+      [[2, 2, 2, 0], ShiftDirection.Right, [0, 0, 2, 4]],
+      [[2, 2, 2, 2], ShiftDirection.Left, [4, 4, 0, 0]],
+      [[2, 2, 4, 0], ShiftDirection.Left, [4, 4, 0, 0]],
+      [[4, 2, 2, 0], ShiftDirection.Left, [4, 4, 0, 0]],
+      [[0, 4, 4, 8], ShiftDirection.Right, [0, 0, 8, 8]],
+      [[2, 0, 0, 2], ShiftDirection.Right, [0, 0, 0, 4]],
+      [[2, 4, 2, 4], ShiftDirection.Left, [2, 4, 2, 4]],
+    ])("shifts %j %s into %j", (row, direction, expected) => {
+      const board = createBoard([
+        row,
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ]);
+
+      board.shift(direction);
+
+      expect(getValues(board)[0]).toEqual(expected);
+    });
+
+    it("merges each piece at most once per shift vertically", () => {
+      const board = createBoard(
+        [
+          [4, 0],
+          [2, 0],
+          [2, 0],
+          [0, 0],
+        ].map((row) => [...row, 0, 0])
+      );
+
+      board.shift(ShiftDirection.Up);
+
+      expect(getValues(board).map((row) => row[0])).toEqual([4, 4, 0, 0]);
+    });
+
+    it("reports transitions, merges and the score gained", () => {
+      const board = createBoard([
+        [2, 2, 4, 0],
+        [0, 0, 0, 8],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ]);
+      const [first, second, third] = [0, 1, 2].map(
+        (columnIndex) =>
+          board.getGamePieceByCoordinate({ rowIndex: 0, columnIndex })!.id
+      );
+
+      const moveResult = board.shift(ShiftDirection.Left);
+
+      expect(moveResult.direction).toBe(ShiftDirection.Left);
+      expect(moveResult.hasMoved).toBe(true);
+      expect(moveResult.scoreGained).toBe(4);
+      expect(moveResult.transitions).toHaveLength(4);
+      expect(moveResult.transitions).toContainEqual({
+        pieceId: second,
+        from: { rowIndex: 0, columnIndex: 1 },
+        to: { rowIndex: 0, columnIndex: 0 },
+        value: 2,
+        merged: true,
+      });
+      expect(moveResult.transitions).toContainEqual({
+        pieceId: third,
+        from: { rowIndex: 0, columnIndex: 2 },
+        to: { rowIndex: 0, columnIndex: 1 },
+        value: 4,
+        merged: false,
+      });
+      expect(moveResult.merges).toEqual([
+        {
+          pieceId: first,
+          coordinate: { rowIndex: 0, columnIndex: 0 },
+          value: 4,
+          sources: [
+            { rowIndex: 0, columnIndex: 0 },
+            { rowIndex: 0, columnIndex: 1 },
+          ],
+        },
+      ]);
+    });
+
+    it("reports stationary pieces with equal coordinates", () => {
+      const board = createBoard([
+        [2, 0],
+        [0, 0],
+      ]);
+
+      const moveResult = board.shift(ShiftDirection.Left);
+
+      expect(moveResult.hasMoved).toBe(false);
+      expect(moveResult.transitions).toEqual([
+        expect.objectContaining({
+          from: { rowIndex: 0, columnIndex: 0 },
+          to: { rowIndex: 0, columnIndex: 0 },
+        }),
+      ]);
+    });
+
+    it.each(directions)("does nothing on an empty board (%s)", (direction) => {
+      const board = new GameBoard(4, randomSource);
+
+      const moveResult = board.shift(direction);
+
+      expect(moveResult.hasMoved).toBe(false);
+      expect(moveResult.transitions).toEqual([]);
+      expect(moveResult.merges).toEqual([]);
+    });
+
+    it.each(directions)(
+      "does nothing on a full board without merges (%s)",
+      (direction) => {
+        const values = [
+          [2, 4, 2, 4],
+          [4, 2, 4, 2],
+          [2, 4, 2, 4],
+          [4, 2, 4, 2],
+        ];
+        const board = createBoard(values);
+
+        expect(board.shift(direction).hasMoved).toBe(false);
+        expect(getValues(board)).toEqual(values);
+      }
+    );
+
+    it("never changes the sum of the piece values", () => {
+      fc.assert(
+        fc.property(gridArbitrary, directionArbitrary, (values, direction) => {
+          const board = createBoard(values);
+          const sumBefore = sumValues(board);
+
+          board.shift(direction);
+
+          expect(sumValues(board)).toBe(sumBefore);
+        })
+      );
+    });
+
+    it("leaves the grid unchanged when nothing moved", () => {
+      fc.assert(
+        fc.property(gridArbitrary, directionArbitrary, (values, direction) => {
+          const board = createBoard(values);
+
+          if (!board.shift(direction).hasMoved) {
+            expect(getValues(board)).toEqual(values);
+          }
+        })
+      );
+    });
+
+    it("is a no-op when applied twice without merges in between", () => {
+      fc.assert(
+        fc.property(gridArbitrary, directionArbitrary, (values, direction) => {
+          const board = createBoard(values);
+          board.shift(direction);
+
+          const secondShift = board.shift(direction);
+
+          if (secondShift.merges.length === 0) {
+            expect(secondShift.hasMoved).toBe(false);
+          }
+        })
+      );
+    });
+
+    it("removes one piece and scores its result for every merge", () => {
+      fc.assert(
+        fc.property(gridArbitrary, directionArbitrary, (values, direction) => {
+          const board = createBoard(values);
+          const piecesBefore = values.flat().filter((value) => value).length;
+
+          const moveResult = board.shift(direction);
+          const piecesAfter = getValues(board)
+            .flat()
+            .filter((value) => value).length;
+
+          expect(moveResult.transitions).toHaveLength(piecesBefore);
+          expect(piecesAfter).toBe(piecesBefore - moveResult.merges.length);
+          expect(moveResult.scoreGained).toBe(
+            moveResult.merges.reduce((sum, { value }) => sum + value, 0)
+          );
+        })
+      );
+    });
+  });
+
+  describe("hasValidMoves", () => {
+    it("is true while a piece can move into an empty cell", () => {
+      expect(
+        createBoard([
+          [2, 0],
+          [0, 0],
+        ]).hasValidMoves()
+      ).toBe(true);
+    });
+
+    it("is false when the empty cells are walled in by blocked cells", () => {
+      expect(
+        createBoard([
+          [2, -1, 0],
+          [4, 8, -1],
+        ]).hasValidMoves()
+      ).toBe(false);
+    });
+
+    it("is false for a full board without equal neighbours", () => {
+      expect(
+        createBoard([
+          [2, 4, 2],
+          [4, 2, 4],
+          [2, 4, 2],
+        ]).hasValidMoves()
+      ).toBe(false);
+    });
+
+    it.each([
+      [
+        "horizontal",
+        [
+          [2, 4, 2],
+          [4, 2, 4],
+          [2, 8, 8],
+        ],
+      ],
+      [
+        "vertical",
+        [
+          [2, 4, 2],
+          [4, 2, 8],
+          [2, 4, 8],
+        ],
+      ],
+    ])("is true for a full board with %s neighbours", (_, values) => {
+      expect(createBoard(values).hasValidMoves()).toBe(true);
+    });
+
+    it("is true whenever a shift can move a piece", () => {
+      fc.assert(
+        fc.property(gridArbitrary, (values) => {
+          const canShift = directions.some(
+            (direction) => createBoard(values).shift(direction).hasMoved
+          );
+
+          if (canShift) {
+            expect(createBoard(values).hasValidMoves()).toBe(true);
+          }
+        })
+      );
+    });
+
+    it("agrees with whether any shift moves a piece on full boards", () => {
+      fc.assert(
+        fc.property(fullGridArbitrary, (values) => {
+          const canShift = directions.some(
+            (direction) => createBoard(values).shift(direction).hasMoved
+          );
+
+          expect(createBoard(values).hasValidMoves()).toBe(canShift);
+        })
+      );
+    });
+  });
+
+  describe("shapes", () => {
+    it("shifts rectangular boards along both axes", () => {
+      const board = createBoard([
+        [2, 0, 0, 2, 4],
+        [0, 0, 0, 0, 0],
+        [0, 4, 0, 0, 0],
+      ]);
+
+      board.shift(ShiftDirection.Right);
+      board.shift(ShiftDirection.Down);
+
+      expect(getValues(board)).toEqual([
+        [0, 0, 0, 0, 0],
+        [0, 0, 0, 0, 0],
+        [0, 0, 0, 4, 8],
+      ]);
+    });
+
+    it.each([
+      [ShiftDirection.Left, [0, -1, 2, 0]],
+      [ShiftDirection.Right, [0, -1, 0, 2]],
+    ])("stops pieces at blocked cells (%s)", (direction, expected) => {
+      const board = createBoard([[0, -1, 0, 2]]);
+
+      board.shift(direction);
+
+      expect(getValues(board)[0]).toEqual(expected);
+    });
+
+    it("does not merge pieces across blocked cells", () => {
+      const board = createBoard([[2, -1, 2]]);
+
+      expect(board.shift(ShiftDirection.Left).hasMoved).toBe(false);
+      expect(board.hasValidMoves()).toBe(false);
+    });
+
+    it("never spawns pieces on blocked cells", () => {
+      const board = createBoard([
+        [-1, 0],
+        [0, -1],
+      ]);
+
+      expect(board.getRandomEmptyCoordinates(4)).toHaveLength(2);
+      expect(board.getEmptyCoordinates()).toEqual([
+        { rowIndex: 0, columnIndex: 1 },
+        { rowIndex: 1, columnIndex: 0 },
+      ]);
+    });
+
+    it.each([
+      [
+        [
+          [0, 0, 0],
+          [0, 0, 0],
+        ],
+        [
+          [0, 0],
+          [0, 2],
+          [1, 0],
+          [1, 2],
+        ],
+      ],
+      [
+        [
+          [0, -1, 0],
+          [0, 0, 0],
+          [-1, 0, 0],
+        ],
+        [
+          [0, 0],
+          [0, 2],
+          [1, 0],
+          [2, 1],
+          [2, 2],
+        ],
+      ],
+    ])("finds the corners of %j", (values, expected) => {
+      expect(
+        createBoard(values)
+          .getCornerCoordinates()
+          .map(({ rowIndex, columnIndex }) => [rowIndex, columnIndex])
+      ).toEqual(expected);
+    });
+
+    it("keeps blocked cells through clone and serialize", () => {
+      const values = [
+        [2, -1, 0],
+        [0, 0, -1],
+      ];
+
+      expect(getValues(createBoard(values).clone())).toEqual(values);
+      expect(createBoard(values).serialize()).toEqual({
+        rowCount: 2,
+        columnCount: 3,
+        values,
+        mergeRule: "classic",
+      });
+    });
+  });
+
+  describe("merge rules", () => {
+    it.each<[MergeRuleId, number[], number[]]>([
+      ["fibonacci", [1, 1, 2, 3], [2, 5, 0, 0]],
+      ["fibonacci", [2, 2, 3, 8], [2, 5, 8, 0]],
+      ["threes", [1, 2, 3, 3], [3, 6, 0, 0]],
+      ["threes", [1, 1, 3, 6], [1, 1, 3, 6]],
+      ["powers-of-three", [3, 3, 9, 0], [9, 9, 0, 0]],
+    ])("shifts a %s row %j into %j", (mergeRule, row, expected) => {
+      const board = createBoard([row], mergeRule);
+
+      board.shift(ShiftDirection.Left);
+
+      expect(getValues(board)[0]).toEqual(expected);
+    });
+
+    it("scores the value of every merged piece", () => {
+      const board = createBoard([[3, 3, 9, 9]], "powers-of-three");
+
+      expect(board.shift(ShiftDirection.Left).scoreGained).toBe(9 + 27);
+    });
+
+    it("checks for valid moves with the merge rule", () => {
+      const values = [
+        [1, 2],
+        [3, 5],
+      ];
+
+      expect(createBoard(values, "fibonacci").hasValidMoves()).toBe(true);
+      expect(createBoard(values, "threes").hasValidMoves()).toBe(true);
+      expect(createBoard(values).hasValidMoves()).toBe(false);
+    });
+
+    it("keeps the merge rule through clone and serialize", () => {
+      const board = createBoard([[1, 2]], "threes");
+
+      expect(board.clone().getMergeRule().id).toBe("threes");
+      expect(board.serialize().mergeRule).toBe("threes");
+    });
+  });
+
+  describe("clone", () => {
+    it("copies the size, values and piece ids", () => {
+      const board = createBoard([
+        [2, 0],
+        [0, 4],
+      ]);
+
+      const clone = board.clone();
+
+      expect(clone.getRowCount()).toBe(2);
+      expect(clone.getColumnCount()).toBe(2);
+      expect(getValues(clone)).toEqual(getValues(board));
+      expect(
+        clone.getGamePieceByCoordinate({ rowIndex: 1, columnIndex: 1 })?.id
+      ).toBe(
+        board.getGamePieceByCoordinate({ rowIndex: 1, columnIndex: 1 })?.id
+      );
+    });
+
+    it("is independent of the original board", () => {
+      fc.assert(
+        fc.property(gridArbitrary, directionArbitrary, (values, direction) => {
+          const board = createBoard(values);
+          const clone = board.clone();
+
+          clone.shift(direction);
+          clone.placeGamePiece(pieceFactory.createPiece(2), {
+            rowIndex: 0,
+            columnIndex: 0,
+          });
+
+          expect(getValues(board)).toEqual(values);
+        })
+      );
+    });
+  });
+
+  describe("getRandomEmptyCoordinates", () => {
+    it("returns distinct empty coordinates", () => {
+      const board = createBoard([
+        [2, 0, 0],
+        [0, 4, 0],
+        [0, 0, 8],
+      ]);
+
+      const coordinates = board.getRandomEmptyCoordinates(4);
+
+      expect(coordinates).toHaveLength(4);
+      expect(
+        new Set(coordinates.map((c) => `${c.rowIndex}:${c.columnIndex}`)).size
+      ).toBe(4);
+      for (const coordinate of coordinates) {
+        expect(board.getGamePieceByCoordinate(coordinate)).toBeNull();
+      }
+    });
+
+    it("returns no more coordinates than there are empty cells", () => {
+      const board = createBoard([
+        [2, 0],
+        [4, 8],
+      ]);
+
+      expect(board.getRandomEmptyCoordinates(3)).toEqual([
+        { rowIndex: 0, columnIndex: 1 },
+      ]);
+    });
+
+    it("is reproducible with the same seed", () => {
+      const pick = (seed: number) =>
+        new GameBoard(
+          4,
+          new SeededRandomSource(seed)
+        ).getRandomEmptyCoordinates(5);
+
+      expect(pick(7)).toEqual(pick(7));
+    });
+  });
+
+  describe("serialize", () => {
+    it("round-trips through deserialize", () => {
+      fc.assert(
+        fc.property(gridArbitrary, (values) => {
+          expect(getValues(createBoard(values))).toEqual(values);
+        })
+      );
+    });
+
+    it.each([
+      [{ rowCount: 0, columnCount: 0, values: [] }, "Invalid board size"],
+      [
+        { rowCount: 2, columnCount: 2, values: [[2, 0]] },
+        "must form a 2x2 grid",
+      ],
+      [
+        {
+          rowCount: 2,
+          columnCount: 2,
+          values: [
+            [2, 0],
+            [0, -2],
+          ],
+        },
+        "Invalid piece value",
+      ],
+      [
+        {
+          rowCount: 1,
+          columnCount: 1,
+          values: [[2]],
+          mergeRule: "hexagonal" as MergeRuleId,
+        },
+        "Unknown merge rule",
+      ],
+    ])("rejects malformed boards", (serializedBoard, message) => {
+      expect(() =>
+        GameBoard.deserialize(serializedBoard, pieceFactory, randomSource)
+      ).toThrow(message);
+    });
+  });
+});
@@ -1,6 +1,14 @@
 import { type IGamePiece } from "./game-piece";
-import { cryptoRandomInt } from "../common/crypto-random-int";
+import { type IGamePieceFactory } from "../factories/game-piece-factory";
+import { type IRandomSource } from "../random/random-source";
 import { ShiftDirection } from "../common/shift-direction";
+import { type MoveResult } from "./move-result";
+import {
+  classicMergeRule,
+  getMergeRule,
+  type IMergeRule,
+  type MergeRuleId,
+} from "./merge-rule";
 
 /**
  * Indicates the position of a cell in the GameBoard grid.
@@ -11,8 +19,30 @@ export type GridCoordinate = {
 };
 
 /**
- * Represents a square playing field consisting of a grid of cells.
- * Cells can contain a `IGamePiece` or be empty (`null`).
+ * The dimensions of a board, and the cells of it that are blocked.
+ * Blocked cells can neither hold pieces nor be passed by them.
+ */
+export type GameBoardShape = {
+  rowCount: number;
+  columnCount: number;
+  blockedCoordinates?: GridCoordinate[];
+};
+
+/**
+ * A plain, JSON-compatible representation of a `IGameBoard`.
+ * Empty cells are stored as `0`, blocked cells as `-1`.
+ */
+export type SerializedGameBoard = {
+  rowCount: number;
+  columnCount: number;
+  values: number[][];
+  /** The id of the merge rule. Boards saved without one are classic. */
+  mergeRule?: MergeRuleId;
+};
+
+/**
+ * Represents a rectangular playing field consisting of a grid of cells.
+ * Cells can contain a `IGamePiece`, be empty (`null`), or be blocked.
  * Provides methods to manage the game pieces and query the board state.
  */
 export interface IGameBoard {
@@ -23,10 +53,33 @@ export interface IGameBoard {
   getGrid(): (IGamePiece | null)[][];
 
   /**
-   * Returns the size of the game board.
-   * @returns {number} The number of rows/columns in the board.
+   * @returns {number} The number of rows in the board.
+   */
+  getRowCount(): number;
+
+  /**
+   * @returns {number} The number of columns in the board.
+   */
+  getColumnCount(): number;
+
+  /**
+   * @returns {GridCoordinate[]} The cells that can never hold a piece.
    */
-  getSize(): number;
+  getBlockedCoordinates(): GridCoordinate[];
+
+  /**
+   * Retrieves the open cells that are walled in, by the edge of the board
+   * or by blocked cells, both horizontally and vertically. On a board
+   * without blocked cells, these are its four corners.
+   *
+   * @returns {GridCoordinate[]} The corner coordinates, row by row.
+   */
+  getCornerCoordinates(): GridCoordinate[];
+
+  /**
+   * @returns {IMergeRule} The rule deciding which pieces merge, and into what.
+   */
+  getMergeRule(): IMergeRule;
 
   /**
    * Retrieves all empty positions on the board.
@@ -81,19 +134,20 @@ export interface IGameBoard {
   findMaxValueGamePiece(): IGamePiece | null;
 
   /**
-   * Checks whether a coordinate is valid within the bounds of the board.
+   * Checks whether a coordinate is a cell that can hold a piece.
    * @param {GridCoordinate} coordinate - The coordinate to validate.
-   * @returns {boolean} True if the coordinate is within bounds, false otherwise.
+   * @returns {boolean} True if the coordinate is within bounds and not
+   * blocked, false otherwise.
    */
   isValidGridCoordinate(coordinate: GridCoordinate): boolean;
 
   /**
    * Determines whether there are any valid moves left on the board.
    *
-   * A move is considered valid if:
-   * - At least one cell is empty (`null`), allowing a new piece to be placed.
-   * - Or, at least one adjacent cell (horizontally or vertically) contains
-   *   the same value, meaning two pieces can be merged.
+   * A move is considered valid if a piece is adjacent (horizontally or
+   * vertically) to an empty cell it can move into, or to a piece it can
+   * merge with according to the merge rule. Blocked cells are never
+   * adjacent to anything.
    *
    * @returns {boolean} `true` if there are valid moves available, otherwise `false`.
    */
@@ -106,68 +160,144 @@ export interface IGameBoard {
    *
    * - Empty cells are skipped.
    * - Pieces are moved as far as possible in the given direction.
-   * - If a piece encounters another piece of the same value, a merge occurs:
-   *   the source piece is removed and the target piece is upgraded (its value doubled).
+   * - If a piece encounters another piece the merge rule lets it merge with,
+   *   a merge occurs: the source piece is removed and the target piece is
+   *   upgraded to the merged value (its value doubled by the classic rule).
+   * - A piece takes part in at most one merge per shift, so `2-2-4` shifted
+   *   left becomes `4-4` rather than `8`.
    *
    * @param {ShiftDirection} direction - The direction in which to shift the board
    * (e.g., up, down, left, right).
-   * @returns {boolean} `true` if at least one piece was moved or merged,
-   * otherwise `false`.
+   * @returns {MoveResult} The transitions and merges caused by the shift.
+   * Its `hasMoved` flag is `true` if at least one piece was moved or merged.
    */
-  shift(direction: ShiftDirection): boolean;
+  shift(direction: ShiftDirection): MoveResult;
 
   /**
    * Creates a deep clone of the current game board instance.
    */
   clone(): IGameBoard;
+
+  /**
+   * Converts the board into a plain representation that can be stored
+   * as JSON and restored with `GameBoard.deserialize`.
+   * @returns {SerializedGameBoard} The dimensions and the cell values of the board.
+   */
+  serialize(): SerializedGameBoard;
 }
 
 export class GameBoard implements IGameBoard {
   #grid: (IGamePiece | null)[][] = [];
 
-  #size: number;
+  #rowCount: number;
+
+  #columnCount: number;
+
+  /** The blocked cells, as `rowIndex:columnIndex`. */
+  #blockedKeys: Set<string>;
+
+  #randomSource: IRandomSource;
+
+  #mergeRule: IMergeRule;
 
   /**
-   * Creates a new game board with the given size.
-   * @param {number} size - The number of rows and columns in the grid.
+   * Creates a new, empty game board.
+   * @param {number|GameBoardShape} shape - The number of rows and columns
+   * of a square grid, or the dimensions and blocked cells of any grid.
+   * @param {IRandomSource} randomSource - Used to pick random empty coordinates.
+   * @param {IMergeRule} [mergeRule] - Defaults to the classic rule, where
+   * equal values merge.
    */
-  constructor(size: number) {
-    this.#size = size;
-    this.#grid = Array<Array<null>>(this.#size)
+  constructor(
+    shape: number | GameBoardShape,
+    randomSource: IRandomSource,
+    mergeRule: IMergeRule = classicMergeRule
+  ) {
+    const {
+      rowCount,
+      columnCount,
+      blockedCoordinates = [],
+    } = typeof shape === "number"
+      ? { rowCount: shape, columnCount: shape }
+      : shape;
+
+    this.#rowCount = rowCount;
+    this.#columnCount = columnCount;
+    this.#blockedKeys = new Set(
+      blockedCoordinates.map((coordinate) => this.#getKey(coordinate))
+    );
+    this.#randomSource = randomSource;
+    this.#mergeRule = mergeRule;
+    this.#grid = Array<Array<null>>(this.#rowCount)
       .fill([])
-      .map(() => Array<null>(this.#size).fill(null));
+      .map(() => Array<null>(this.#columnCount).fill(null));
   }
 
   getGrid(): (IGamePiece | null)[][] {
     return this.#grid;
   }
 
-  getSize(): number {
-    return this.#size;
+  getRowCount(): number {
+    return this.#rowCount;
   }
 
-  getEmptyCoordinates() {
-    const coordinates: GridCoordinate[] = [];
+  getColumnCount(): number {
+    return this.#columnCount;
+  }
 
-    for (let rowIndex = 0; rowIndex < this.#grid.length; rowIndex += 1) {
-      const row = this.#grid[rowIndex];
+  getMergeRule(): IMergeRule {
+    return this.#mergeRule;
+  }
 
-      for (let columnIndex = 0; columnIndex < row.length; columnIndex += 1) {
-        if (row[columnIndex] === null) {
-          coordinates.push({ columnIndex, rowIndex });
-        }
-      }
-    }
+  getBlockedCoordinates(): GridCoordinate[] {
+    return this.#getCoordinates().filter((coordinate) =>
+      this.#isBlocked(coordinate)
+    );
+  }
 
-    return coordinates;
+  getCornerCoordinates(): GridCoordinate[] {
+    const isWall = (coordinate: GridCoordinate) =>
+      !this.isValidGridCoordinate(coordinate);
+
+    return this.#getCoordinates().filter(
+      (coordinate) =>
+        !isWall(coordinate) &&
+        (isWall(
+          GameBoard.updateCoordinateByDirection(coordinate, ShiftDirection.Left)
+        ) ||
+          isWall(
+            GameBoard.updateCoordinateByDirection(
+              coordinate,
+              ShiftDirection.Right
+            )
+          )) &&
+        (isWall(
+          GameBoard.updateCoordinateByDirection(coordinate, ShiftDirection.Up)
+        ) ||
+          isWall(
+            GameBoard.updateCoordinateByDirection(
+              coordinate,
+              ShiftDirection.Down
+            )
+          ))
+    );
+  }
+
+  getEmptyCoordinates() {
+    return this.#getCoordinates().filter(
+      (coordinate) =>
+        !this.#isBlocked(coordinate) &&
+        this.getGamePieceByCoordinate(coordinate) === null
+    );
   }
 
   getRandomEmptyCoordinates(count: number): GridCoordinate[] {
     const coordinates = this.getEmptyCoordinates();
     const randomCoordinates: GridCoordinate[] = [];
+    const randomCoordinatesCount = Math.min(count, coordinates.length);
 
-    while (randomCoordinates.length < Math.min(count, coordinates.length)) {
-      const index = cryptoRandomInt(0, coordinates.length - 1);
+    while (randomCoordinates.length < randomCoordinatesCount) {
+      const index = this.#randomSource.nextInt(0, coordinates.length - 1);
       randomCoordinates.push(coordinates[index]);
       coordinates.splice(index, 1);
     }
@@ -216,44 +346,59 @@ export class GameBoard implements IGameBoard {
   isValidGridCoordinate(coordinate: GridCoordinate): boolean {
     return (
       coordinate.rowIndex >= 0 &&
-      coordinate.rowIndex < this.#size &&
+      coordinate.rowIndex < this.#rowCount &&
       coordinate.columnIndex >= 0 &&
-      coordinate.columnIndex < this.#size
+      coordinate.columnIndex < this.#columnCount &&
+      !this.#isBlocked(coordinate)
     );
   }
 
   hasValidMoves(): boolean {
-    let validMoveFound = false;
-    const lastIndex = this.#size - 1;
-
-    for (let rowIndex = 0; rowIndex < this.#size; rowIndex += 1) {
-      const row = this.#grid[rowIndex];
-
-      for (let columnIndex = 0; columnIndex < this.#size; columnIndex += 1) {
-        if (row[columnIndex] === null) {
-          validMoveFound = true;
-        } else if (
-          (columnIndex < lastIndex &&
-            row[columnIndex]?.value === row[columnIndex + 1]?.value) ||
-          (rowIndex < lastIndex &&
-            row[columnIndex]?.value ===
-              this.#grid[rowIndex + 1][columnIndex]?.value)
-        ) {
-          validMoveFound = true;
-        }
+    const canMoveBetween = (a: GridCoordinate, b: GridCoordinate) => {
+      if (!this.isValidGridCoordinate(b)) return false;
 
-        if (validMoveFound) {
-          break;
-        }
-      }
-    }
+      const pieceA = this.getGamePieceByCoordinate(a);
+      const pieceB = this.getGamePieceByCoordinate(b);
 
-    return validMoveFound;
+      return pieceA === null || pieceB === null
+        ? pieceA !== pieceB
+        : this.#mergeRule.canMerge(pieceA.value, pieceB.value) ||
+            this.#mergeRule.canMerge(pieceB.value, pieceA.value);
+    };
+
+    // Checking every cell against its right and lower neighbour covers
+    // every adjacent pair once.
+    return this.#getCoordinates().some(
+      (coordinate) =>
+        this.isValidGridCoordinate(coordinate) &&
+        (canMoveBetween(
+          coordinate,
+          GameBoard.updateCoordinateByDirection(
+            coordinate,
+            ShiftDirection.Right
+          )
+        ) ||
+          canMoveBetween(
+            coordinate,
+            GameBoard.updateCoordinateByDirection(
+              coordinate,
+              ShiftDirection.Down
+            )
+          ))
+    );
   }
 
-  shift(direction: ShiftDirection): boolean {
-    let hasMoved = false;
+  shift(direction: ShiftDirection): MoveResult {
+    const moveResult: MoveResult = {
+      direction,
+      hasMoved: false,
+      transitions: [],
+      merges: [],
+      scoreGained: 0,
+    };
     const accessSequence = this.#getBoardGridAccessSequence(direction);
+    const originCoordinates = new Map<IGamePiece, GridCoordinate>();
+    const mergedPieces = new Set<IGamePiece>();
 
     for (const coordinate of accessSequence) {
       const piece = this.getGamePieceByCoordinate(coordinate);
@@ -263,56 +408,100 @@ export class GameBoard implements IGameBoard {
       const updateInstruction = this.#getUpdateInstructionForPiece(
         piece,
         coordinate,
-        direction
+        direction,
+        mergedPieces
       );
 
+      moveResult.transitions.push({
+        pieceId: piece.id,
+        from: coordinate,
+        to: updateInstruction.nextCoordinate ?? coordinate,
+        value: piece.value,
+        merged: updateInstruction.mergeRequired,
+      });
+
       if (updateInstruction.nextCoordinate) {
         if (updateInstruction.mergeRequired) {
-          this.removeGamePiece(coordinate);
-          this.getGamePieceByCoordinate(
+          const targetPiece = this.getGamePieceByCoordinate(
             updateInstruction.nextCoordinate
-          )?.upgrade();
+          )!;
+
+          this.removeGamePiece(coordinate);
+          targetPiece.upgrade(
+            this.#mergeRule.merge(piece.value, targetPiece.value)
+          );
+          mergedPieces.add(targetPiece);
+
+          moveResult.merges.push({
+            pieceId: targetPiece.id,
+            coordinate: updateInstruction.nextCoordinate,
+            value: targetPiece.value,
+            sources: [
+              originCoordinates.get(targetPiece) ??
+                updateInstruction.nextCoordinate,
+              coordinate,
+            ],
+          });
+          moveResult.scoreGained += targetPiece.value;
         } else {
           this.moveGamePiece(coordinate, updateInstruction.nextCoordinate);
         }
 
-        hasMoved = true;
+        moveResult.hasMoved = true;
       }
+
+      originCoordinates.set(piece, coordinate);
     }
 
-    return hasMoved;
+    return moveResult;
   }
 
   #getBoardGridAccessSequence(direction: ShiftDirection) {
-    const maxCoordinate = this.#size - 1;
-    const accessSequence: GridCoordinate[] = [];
+    const maxRowIndex = this.#rowCount - 1;
+    const maxColumnIndex = this.#columnCount - 1;
+
+    return this.#getCoordinates().map(({ rowIndex, columnIndex }) => ({
+      rowIndex:
+        direction === ShiftDirection.Down ? maxRowIndex - rowIndex : rowIndex,
+      columnIndex:
+        direction === ShiftDirection.Right
+          ? maxColumnIndex - columnIndex
+          : columnIndex,
+    }));
+  }
+
+  /**
+   * @returns {GridCoordinate[]} Every cell of the grid, blocked or not, row by row.
+   */
+  #getCoordinates(): GridCoordinate[] {
+    const coordinates: GridCoordinate[] = [];
 
-    for (let rowIndex = 0; rowIndex <= maxCoordinate; rowIndex += 1) {
+    for (let rowIndex = 0; rowIndex < this.#rowCount; rowIndex += 1) {
       for (
         let columnIndex = 0;
-        columnIndex <= maxCoordinate;
+        columnIndex < this.#columnCount;
         columnIndex += 1
       ) {
-        accessSequence.push({
-          rowIndex:
-            direction === ShiftDirection.Down
-              ? maxCoordinate - rowIndex
-              : rowIndex,
-          columnIndex:
-            direction === ShiftDirection.Right
-              ? maxCoordinate - columnIndex
-              : columnIndex,
-        });
+        coordinates.push({ columnIndex, rowIndex });
       }
     }
 
-    return accessSequence;
+    return coordinates;
+  }
+
+  #isBlocked(coordinate: GridCoordinate): boolean {
+    return this.#blockedKeys.has(this.#getKey(coordinate));
+  }
+
+  #getKey({ rowIndex, columnIndex }: GridCoordinate): string {
+    return `${rowIndex}:${columnIndex}`;
   }
 
   #getUpdateInstructionForPiece(
     piece: IGamePiece,
     currentCoordinate: GridCoordinate,
-    direction: ShiftDirection
+    direction: ShiftDirection,
+    mergedPieces: Set<IGamePiece>
   ) {
     let nextCoordinate: GridCoordinate | null = null;
     let mergeRequired = false;
@@ -333,7 +522,13 @@ export class GameBoard implements IGameBoard {
           continue;
         }
 
-        if (candidateCoordinatePiece.value === piece.value) {
+        if (
+          this.#mergeRule.canMerge(
+            piece.value,
+            candidateCoordinatePiece.value
+          ) &&
+          !mergedPieces.has(candidateCoordinatePiece)
+        ) {
           nextCoordinate = candidateCoordinate;
           mergeRequired = true;
         }
@@ -349,10 +544,22 @@ export class GameBoard implements IGameBoard {
   }
 
   clone(): IGameBoard {
-    const clonedBoard = new GameBoard(this.#size);
+    const clonedBoard = new GameBoard(
+      {
+        rowCount: this.#rowCount,
+        columnCount: this.#columnCount,
+        blockedCoordinates: this.getBlockedCoordinates(),
+      },
+      this.#randomSource,
+      this.#mergeRule
+    );
 
-    for (let rowIndex = 0; rowIndex < this.#size; rowIndex += 1) {
-      for (let columnIndex = 0; columnIndex < this.#size; columnIndex += 1) {
+    for (let rowIndex = 0; rowIndex < this.#rowCount; rowIndex += 1) {
+      for (
+        let columnIndex = 0;
+        columnIndex < this.#columnCount;
+        columnIndex += 1
+      ) {
         const piece = this.#grid[rowIndex][columnIndex];
 
         if (piece) {
@@ -367,6 +574,95 @@ export class GameBoard implements IGameBoard {
     return clonedBoard;
   }
 
+  serialize(): SerializedGameBoard {
+    return {
+      rowCount: this.#rowCount,
+      columnCount: this.#columnCount,
+      values: this.#grid.map((row, rowIndex) =>
+        row.map((piece, columnIndex) =>
+          this.#isBlocked({ rowIndex, columnIndex }) ? -1 : (piece?.value ?? 0)
+        )
+      ),
+      mergeRule: this.#mergeRule.id,
+    };
+  }
+
+  /**
+   * Restores a board from its serialized representation.
+   *
+   * @param {SerializedGameBoard} serializedBoard - The board to restore.
+   * @param {IGamePieceFactory} pieceFactory - Creates the restored pieces.
+   * @param {IRandomSource} randomSource - Used by the restored board.
+   * @returns {GameBoard} The restored board.
+   * @throws {Error} If the serialized board is malformed or has an
+   * unknown merge rule.
+   */
+  static deserialize(
+    serializedBoard: SerializedGameBoard,
+    pieceFactory: IGamePieceFactory,
+    randomSource: IRandomSource
+  ): GameBoard {
+    const {
+      rowCount,
+      columnCount,
+      values,
+      mergeRule = "classic",
+    } = serializedBoard;
+
+    if (
+      !Number.isInteger(rowCount) ||
+      rowCount < 1 ||
+      !Number.isInteger(columnCount) ||
+      columnCount < 1
+    ) {
+      throw new Error(`Invalid board size: ${rowCount}x${columnCount}.`);
+    }
+
+    if (
+      !Array.isArray(values) ||
+      values.length !== rowCount ||
+      values.some((row) => !Array.isArray(row) || row.length !== columnCount)
+    ) {
+      throw new Error(
+        `Board values must form a ${rowCount}x${columnCount} grid.`
+      );
+    }
+
+    const blockedCoordinates: GridCoordinate[] = [];
+    const pieces: { value: number; coordinate: GridCoordinate }[] = [];
+
+    for (let rowIndex = 0; rowIndex < rowCount; rowIndex += 1) {
+      for (let columnIndex = 0; columnIndex < columnCount; columnIndex += 1) {
+        const value = values[rowIndex][columnIndex];
+        const coordinate = { rowIndex, columnIndex };
+
+        if (!Number.isInteger(value) || value < -1) {
+          throw new Error(
+            `Invalid piece value at row ${rowIndex}, column ${columnIndex}: ${value}.`
+          );
+        }
+
+        if (value === -1) {
+          blockedCoordinates.push(coordinate);
+        } else if (value > 0) {
+          pieces.push({ value, coordinate });
+        }
+      }
+    }
+
+    const board = new GameBoard(
+      { rowCount, columnCount, blockedCoordinates },
+      randomSource,
+      getMergeRule(mergeRule)
+    );
+
+    for (const { value, coordinate } of pieces) {
+      board.placeGamePiece(pieceFactory.createPiece(value), coordinate);
+    }
+
+    return board;
+  }
+
   static updateCoordinateByDirection(
     coordinate: GridCoordinate,
     direction: ShiftDirection
@@ -0,0 +1,111 @@
+/**
+ * Keeps a bounded record of past game states that can be stepped through
+ * backwards (undo) and forwards again (redo).
+ *
+ * Snapshots are stored as provided, so callers are responsible for passing
+ * copies that are not mutated afterwards (e.g. `IGameBoard.clone()`).
+ */
+export interface IGameHistory<TSnapshot> {
+  /**
+   * Records the state preceding a new move.
+   * Discards all states that could previously be redone.
+   *
+   * @param {TSnapshot} snapshot - The state before the move was made.
+   */
+  record(snapshot: TSnapshot): void;
+
+  /**
+   * Steps one state back.
+   *
+   * @param {TSnapshot} current - The current state, kept so it can be redone.
+   * @returns {TSnapshot|null} The previous state, or `null` if there is none.
+   */
+  undo(current: TSnapshot): TSnapshot | null;
+
+  /**
+   * Steps one state forward again after an undo.
+   *
+   * @param {TSnapshot} current - The current state, kept so it can be undone.
+   * @returns {TSnapshot|null} The next state, or `null` if there is none.
+   */
+  redo(current: TSnapshot): TSnapshot | null;
+
+  /**
+   * @returns {boolean} `true` if there is a state to step back to.
+   */
+  canUndo(): boolean;
+
+  /**
+   * @returns {boolean} `true` if there is a state to step forward to.
+   */
+  canRedo(): boolean;
+
+  /**
+   * Removes all recorded states.
+   */
+  clear(): void;
+}
+
+export class GameHistory<TSnapshot> implements IGameHistory<TSnapshot> {
+  #undoStack: TSnapshot[] = [];
+
+  #redoStack: TSnapshot[] = [];
+
+  #limit: number;
+
+  /**
+   * @param {number} limit - The maximum number of states that can be undone.
+   * The oldest states are dropped once the limit is exceeded, and `0`
+   * keeps no history at all.
+   * @throws {Error} If the limit is not a non-negative integer.
+   */
+  constructor(limit: number) {
+    if (!Number.isInteger(limit) || limit < 0) {
+      throw new Error(`Invalid history limit: ${limit}.`);
+    }
+
+    this.#limit = limit;
+  }
+
+  record(snapshot: TSnapshot) {
+    this.#undoStack.push(snapshot);
+    this.#redoStack = [];
+
+    if (this.#undoStack.length > this.#limit) {
+      this.#undoStack.shift();
+    }
+  }
+
+  undo(current: TSnapshot): TSnapshot | null {
+    const previous = this.#undoStack.pop();
+
+    if (previous === undefined) return null;
+
+    this.#redoStack.push(current);
+
+    return previous;
+  }
+
+  redo(current: TSnapshot): TSnapshot | null {
+    const next = this.#redoStack.pop();
+
+    if (next === undefined) return null;
+
+    this.#undoStack.push(current);
+
+    return next;
+  }
+
+  canUndo(): boolean {
+    return this.#undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.#redoStack.length > 0;
+  }
+
+  clear() {
+    this.#undoStack = [];
+    this.#redoStack = [];
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { GamePiece } from "./game-piece";
+
+describe("GamePiece", () => {
+  it("assigns a unique id to every new piece", () => {
+    const pieces = [new GamePiece(2), new GamePiece(2), new GamePiece(4)];
+
+    expect(new Set(pieces.map(({ id }) => id)).size).toBe(pieces.length);
+  });
+
+  it("keeps a provided id", () => {
+    expect(new GamePiece(8, 42).id).toBe(42);
+  });
+
+  it("doubles its value when upgraded", () => {
+    const piece = new GamePiece(4);
+
+    piece.upgrade();
+
+    expect(piece.value).toBe(8);
+  });
+
+  it("clones into an independent piece with the same id and value", () => {
+    const piece = new GamePiece(16);
+    const clone = piece.clone();
+
+    clone.upgrade();
+
+    expect(clone).not.toBe(piece);
+    expect(clone.id).toBe(piece.id);
+    expect(piece.value).toBe(16);
+    expect(clone.value).toBe(32);
+  });
+});
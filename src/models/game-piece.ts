@@ -1,9 +1,14 @@
-import { cryptoRandom } from "../common/crypto-random";
-
 /**
  * Represents a single piece in the game and it's value.
  */
 export interface IGamePiece {
+  /**
+   * A stable identifier that follows the piece across moves.
+   * Clones share the identifier of the piece they were cloned from.
+   * @type {number}
+   */
+  readonly id: number;
+
   /**
    * The numeric value of the game piece.
    * @type {number}
@@ -11,37 +16,41 @@ export interface IGamePiece {
   value: number;
 
   /**
-   * Doubles the current value of the game piece.
-   * Used when two pieces of the same value merge during gameplay.
+   * Raises the value of the game piece after it absorbed another one.
+   * @param {number} [value] - The merged value, as decided by the merge
+   * rule of the board. Doubles the current value if omitted.
    */
-  upgrade(): void;
+  upgrade(value?: number): void;
 
   /**
    * Creates a deep clone of this game piece.
    */
-  clone(): IGamePiece
+  clone(): IGamePiece;
 }
 
+let nextGamePieceId = 1;
+
 export class GamePiece implements IGamePiece {
+  readonly id: number;
+
   value: number;
 
   /**
    * Creates a new game piece.
-   * If no value is provided, the piece is initialized randomly:
-   * - 90% chance of being `2`
-   * - 10% chance of being `4`
    *
-   * @param {number} [value] - Optional initial value for the piece.
+   * @param {number} value - The initial value for the piece.
+   * @param {number} [id] - Optional identifier, a new one is generated if omitted.
    */
-  constructor(value?: number) {
-    this.value = value ?? (cryptoRandom() < 0.9 ? 2 : 4);
+  constructor(value: number, id?: number) {
+    this.id = id ?? nextGamePieceId++;
+    this.value = value;
   }
 
-  upgrade() {
-    this.value = this.value * 2;
+  upgrade(value?: number) {
+    this.value = value ?? this.value * 2;
   }
 
   clone(): IGamePiece {
-    return new GamePiece(this.value);
+    return new GamePiece(this.value, this.id);
   }
 }
@@ -0,0 +1,100 @@
+import { type ShiftDirection } from "../common/shift-direction";
+import { type IGamePieceFactory } from "../factories/game-piece-factory";
+import { type IRandomSource } from "../random/random-source";
+import {
+  GameBoard,
+  type GridCoordinate,
+  type IGameBoard,
+  type SerializedGameBoard,
+} from "./game-board";
+import { type MoveResult } from "./move-result";
+
+/**
+ * A move of a recorded game, along with the pieces spawned after it.
+ */
+export type ReplayMove = {
+  direction: ShiftDirection;
+  spawns: { coordinate: GridCoordinate; value: number }[];
+};
+
+/**
+ * A recorded game: the board it started from and every move played on it.
+ * Recording the spawns makes the replay independent of the random source
+ * the game was played with.
+ */
+export type GameReplay = {
+  /** The board after the starting pieces were placed, or the resumed board. */
+  initialBoard: SerializedGameBoard;
+  initialScore: number;
+  /**
+   * The state of the random source when the recording started, or `null`
+   * if the source cannot be restored. A seeded engine restored to this
+   * state spawns the same pieces for the same moves.
+   */
+  randomState: number | null;
+  moves: ReplayMove[];
+};
+
+/**
+ * The game as it was after a number of moves of a replay.
+ */
+export type ReplayFrame = {
+  board: IGameBoard;
+  score: number;
+  /** The move leading to this frame; absent for the initial frame. */
+  moveResult?: MoveResult;
+};
+
+/**
+ * Plays a replay back on a fresh board. Frames share piece identifiers
+ * with the frames before them, so that moving from one frame to the next
+ * can be animated.
+ *
+ * @param {GameReplay} replay - The replay to play back.
+ * @param {IGamePieceFactory} pieceFactory - Creates the pieces.
+ * @param {IRandomSource} randomSource - Used by the boards.
+ * @returns {ReplayFrame[]} The initial frame followed by one frame per move.
+ * @throws {Error} If a move does not change the board, or a piece spawns
+ * on an occupied cell.
+ */
+export function createReplayFrames(
+  replay: GameReplay,
+  pieceFactory: IGamePieceFactory,
+  randomSource: IRandomSource
+): ReplayFrame[] {
+  const board = GameBoard.deserialize(
+    replay.initialBoard,
+    pieceFactory,
+    randomSource
+  );
+  const frames: ReplayFrame[] = [
+    { board: board.clone(), score: replay.initialScore },
+  ];
+  let score = replay.initialScore;
+
+  for (const [index, { direction, spawns }] of replay.moves.entries()) {
+    const moveResult = board.shift(direction);
+
+    if (!moveResult.hasMoved) {
+      throw new Error(`Move ${index + 1} does not change the board.`);
+    }
+
+    for (const { coordinate, value } of spawns) {
+      if (
+        !board.isValidGridCoordinate(coordinate) ||
+        board.getGamePieceByCoordinate(coordinate)
+      ) {
+        throw new Error(
+          `Move ${index + 1} spawns a piece outside of the empty cells.`
+        );
+      }
+
+      board.placeGamePiece(pieceFactory.createPiece(value), coordinate);
+    }
+
+    score += moveResult.scoreGained;
+    frames.push({ board: board.clone(), score, moveResult });
+  }
+
+  return frames;
+}
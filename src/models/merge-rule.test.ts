@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { getMergeRule, type MergeRuleId, mergeRules } from "./merge-rule";
+
+describe("mergeRules", () => {
+  it.each<[MergeRuleId, [number, number][], [number, number][]]>([
+    [
+      "classic",
+      [
+        [2, 2],
+        [1024, 1024],
+      ],
+      [
+        [2, 4],
+        [4, 8],
+      ],
+    ],
+    [
+      "fibonacci",
+      [
+        [1, 1],
+        [1, 2],
+        [8, 5],
+        [377, 610],
+      ],
+      [
+        [2, 2],
+        [3, 8],
+        [4, 4],
+      ],
+    ],
+    [
+      "threes",
+      [
+        [1, 2],
+        [2, 1],
+        [3, 3],
+        [96, 96],
+      ],
+      [
+        [1, 1],
+        [2, 2],
+        [3, 6],
+        [1, 3],
+      ],
+    ],
+    [
+      "powers-of-three",
+      [
+        [3, 3],
+        [243, 243],
+      ],
+      [
+        [3, 9],
+        [9, 27],
+      ],
+    ],
+  ])("merges the right pairs by the %s rule", (id, merging, other) => {
+    const mergeRule = mergeRules[id];
+
+    for (const [value, otherValue] of merging) {
+      expect(mergeRule.canMerge(value, otherValue)).toBe(true);
+    }
+
+    for (const [value, otherValue] of other) {
+      expect(mergeRule.canMerge(value, otherValue)).toBe(false);
+    }
+  });
+
+  it.each<[MergeRuleId, number[]]>([
+    ["classic", [2, 4, 8, 16, 32]],
+    ["fibonacci", [1, 2, 3, 5, 8]],
+    ["threes", [1, 2, 3, 6, 12]],
+    ["powers-of-three", [3, 9, 27, 81, 243]],
+  ])("ranks the %s values %j from 1", (id, values) => {
+    expect(values.map((value) => mergeRules[id].getRank(value))).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+  });
+
+  it.each(Object.values(mergeRules))(
+    "reaches the win value of the $id rule by merging",
+    (mergeRule) => {
+      expect(mergeRule.getRank(mergeRule.winValue)).toBeGreaterThan(0);
+    }
+  );
+
+  it("gives values no piece can have a rank of 0", () => {
+    expect(mergeRules.classic.getRank(6)).toBe(0);
+    expect(mergeRules.fibonacci.getRank(4)).toBe(0);
+    expect(mergeRules.threes.getRank(9)).toBe(0);
+    expect(mergeRules["powers-of-three"].getRank(6)).toBe(0);
+  });
+});
+
+describe("getMergeRule", () => {
+  it("throws for unknown ids", () => {
+    expect(() => getMergeRule("toString")).toThrow(
+      'Unknown merge rule "toString".'
+    );
+  });
+});
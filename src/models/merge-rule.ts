@@ -0,0 +1,205 @@
+import { type SpawnOption } from "./spawn-policy";
+
+/**
+ * The ids of the available merge rules, see `mergeRules`.
+ */
+export type MergeRuleId =
+  "classic" | "fibonacci" | "threes" | "powers-of-three";
+
+/**
+ * Decides which pieces merge and into what, and with it the values a
+ * game variant is played with.
+ */
+export interface IMergeRule {
+  /** Identifies the rule in serialized boards and in settings. */
+  readonly id: MergeRuleId;
+
+  /** The value that wins the game unless configured otherwise. */
+  readonly winValue: number;
+
+  /** The values new pieces have unless configured otherwise. */
+  readonly spawnOptions: SpawnOption[];
+
+  /**
+   * @param {number} value - The value of the moving piece.
+   * @param {number} otherValue - The value of the piece it runs into.
+   * @returns {boolean} `true` if the two pieces merge.
+   */
+  canMerge(value: number, otherValue: number): boolean;
+
+  /**
+   * @param {number} value - The value of the moving piece.
+   * @param {number} otherValue - The value of the piece it runs into.
+   * @returns {number} The value of the merged piece.
+   */
+  merge(value: number, otherValue: number): number;
+
+  /**
+   * @param {number} value - The value of a piece.
+   * @returns {number} The position of the value among the values pieces
+   * can reach, from `1` for the lowest, or `0` if no piece can have it.
+   * Pieces of the same rank look alike across variants.
+   */
+  getRank(value: number): number;
+}
+
+/**
+ * The rule of the original game: equal values merge into their sum,
+ * so every value is a power of two.
+ */
+export class ClassicMergeRule implements IMergeRule {
+  readonly id = "classic";
+
+  readonly winValue = 2048;
+
+  readonly spawnOptions = [
+    { value: 2, probability: 0.9 },
+    { value: 4, probability: 0.1 },
+  ];
+
+  canMerge(value: number, otherValue: number): boolean {
+    return value === otherValue;
+  }
+
+  merge(value: number, otherValue: number): number {
+    return value + otherValue;
+  }
+
+  getRank(value: number): number {
+    const rank = Math.log2(value);
+
+    return Number.isInteger(rank) && rank >= 1 ? rank : 0;
+  }
+}
+
+/**
+ * Neighbours in the Fibonacci sequence (1, 2, 3, 5, 8…) merge into the
+ * next number of the sequence, and so do two 1s.
+ */
+export class FibonacciMergeRule implements IMergeRule {
+  readonly id = "fibonacci";
+
+  readonly winValue = 2584;
+
+  readonly spawnOptions = [
+    { value: 1, probability: 0.9 },
+    { value: 2, probability: 0.1 },
+  ];
+
+  /** The index of every number of the sequence that fits a safe integer. */
+  #indexes = new Map<number, number>();
+
+  constructor() {
+    let [value, nextValue] = [1, 2];
+
+    for (let index = 0; value <= Number.MAX_SAFE_INTEGER; index += 1) {
+      this.#indexes.set(value, index);
+      [value, nextValue] = [nextValue, value + nextValue];
+    }
+  }
+
+  canMerge(value: number, otherValue: number): boolean {
+    const index = this.#indexes.get(value);
+    const otherIndex = this.#indexes.get(otherValue);
+
+    if (index === undefined || otherIndex === undefined) return false;
+
+    return Math.abs(index - otherIndex) === 1 || value + otherValue === 2;
+  }
+
+  merge(value: number, otherValue: number): number {
+    return value + otherValue;
+  }
+
+  getRank(value: number): number {
+    return (this.#indexes.get(value) ?? -1) + 1;
+  }
+}
+
+/**
+ * The rule of Threes: a 1 and a 2 merge into a 3, after which equal
+ * values merge into their sum (3, 6, 12, 24…). 1s and 2s never merge
+ * with their own kind.
+ */
+export class ThreesMergeRule implements IMergeRule {
+  readonly id = "threes";
+
+  readonly winValue = 3072;
+
+  readonly spawnOptions = [
+    { value: 1, probability: 1 / 3 },
+    { value: 2, probability: 1 / 3 },
+    { value: 3, probability: 1 / 3 },
+  ];
+
+  canMerge(value: number, otherValue: number): boolean {
+    return value + otherValue === 3 || (value >= 3 && value === otherValue);
+  }
+
+  merge(value: number, otherValue: number): number {
+    return value + otherValue;
+  }
+
+  getRank(value: number): number {
+    if (value === 1 || value === 2) return value;
+
+    const rank = Math.log2(value / 3);
+
+    return Number.isInteger(rank) && rank >= 0 ? rank + 3 : 0;
+  }
+}
+
+/**
+ * Equal powers of three merge into the next power (3, 9, 27, 81…).
+ */
+export class PowersOfThreeMergeRule implements IMergeRule {
+  readonly id = "powers-of-three";
+
+  /** Takes as many merges as 2048 does with the classic rule. */
+  readonly winValue = 59049;
+
+  readonly spawnOptions = [
+    { value: 3, probability: 0.9 },
+    { value: 9, probability: 0.1 },
+  ];
+
+  canMerge(value: number, otherValue: number): boolean {
+    return value === otherValue;
+  }
+
+  merge(value: number): number {
+    return value * 3;
+  }
+
+  getRank(value: number): number {
+    // Rounded, since `Math.log(243) / Math.log(3)` is not exactly 5.
+    const rank = Math.round(Math.log(value) / Math.log(3));
+
+    return rank >= 1 && 3 ** rank === value ? rank : 0;
+  }
+}
+
+export const classicMergeRule = new ClassicMergeRule();
+
+/**
+ * The available merge rules by id.
+ */
+export const mergeRules: Record<MergeRuleId, IMergeRule> = {
+  classic: classicMergeRule,
+  fibonacci: new FibonacciMergeRule(),
+  threes: new ThreesMergeRule(),
+  "powers-of-three": new PowersOfThreeMergeRule(),
+};
+
+/**
+ * @param {string} id - The id of a merge rule.
+ * @returns {IMergeRule} The merge rule with the id.
+ * @throws {Error} If there is no merge rule with the id.
+ */
+export function getMergeRule(id: string): IMergeRule {
+  if (!Object.hasOwn(mergeRules, id)) {
+    throw new Error(`Unknown merge rule "${id}".`);
+  }
+
+  return mergeRules[id as MergeRuleId];
+}
@@ -0,0 +1,56 @@
+import { type ShiftDirection } from "../common/shift-direction";
+import { type GridCoordinate } from "./game-board";
+
+/**
+ * Describes where a single game piece travelled during a shift.
+ * Pieces that did not move are reported with equal `from` and `to`.
+ */
+export type PieceTransition = {
+  /** The `IGamePiece.id` of the piece that moved. */
+  pieceId: number;
+  from: GridCoordinate;
+  to: GridCoordinate;
+  /** The value of the piece before the shift was applied. */
+  value: number;
+  /** Whether the piece was consumed by merging into the piece at `to`. */
+  merged: boolean;
+};
+
+/**
+ * Describes a merge of two game pieces during a shift.
+ */
+export type PieceMerge = {
+  /** The `IGamePiece.id` of the piece that absorbed the other one. */
+  pieceId: number;
+  /** The coordinate where the merged piece ended up. */
+  coordinate: GridCoordinate;
+  /** The value of the merged piece. */
+  value: number;
+  /** The coordinates the two merged pieces occupied before the shift. */
+  sources: [GridCoordinate, GridCoordinate];
+};
+
+/**
+ * The outcome of shifting a `IGameBoard` in a given direction.
+ */
+export type MoveResult = {
+  direction: ShiftDirection;
+  /** `true` if at least one piece was moved or merged. */
+  hasMoved: boolean;
+  /** The transition of every piece that was on the board before the shift. */
+  transitions: PieceTransition[];
+  /** The merges that occurred, in the order they were applied. */
+  merges: PieceMerge[];
+  /** The sum of the values of all merged pieces. */
+  scoreGained: number;
+};
+
+/**
+ * Describes a game piece that was spawned on the board.
+ */
+export type PieceSpawn = {
+  /** The `IGamePiece.id` of the spawned piece. */
+  pieceId: number;
+  coordinate: GridCoordinate;
+  value: number;
+};
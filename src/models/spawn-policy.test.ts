@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import { GameBoard } from "./game-board";
+import {
+  defaultSpawnPolicy,
+  findWorstSpawn,
+  pickSpawnValue,
+  type SpawnPolicy,
+  validateSpawnPolicy,
+} from "./spawn-policy";
+
+const randomSource = new SeededRandomSource(1);
+const pieceFactory = new DefaultGamePieceFactory(randomSource);
+
+function createBoard(values: number[][]) {
+  return GameBoard.deserialize(
+    { rowCount: values.length, columnCount: values[0].length, values },
+    pieceFactory,
+    randomSource
+  );
+}
+
+describe("validateSpawnPolicy", () => {
+  it("accepts the default policy", () => {
+    expect(() => validateSpawnPolicy(defaultSpawnPolicy)).not.toThrow();
+  });
+
+  it.each<[Partial<SpawnPolicy>, string]>([
+    [{ options: [] }, "at least one value"],
+    [{ options: [{ value: 3.5, probability: 1 }] }, "Invalid spawn value"],
+    [{ options: [{ value: 2, probability: 0.5 }] }, "must add up to 1"],
+    [{ piecesPerMove: 0 }, "Invalid pieces per move"],
+  ])("rejects %j", (policy, message) => {
+    expect(() =>
+      validateSpawnPolicy({ ...defaultSpawnPolicy, ...policy })
+    ).toThrow(message);
+  });
+});
+
+describe("pickSpawnValue", () => {
+  it("picks values in proportion to their probabilities", () => {
+    const source = new SeededRandomSource(7);
+    const values = Array.from({ length: 1000 }, () =>
+      pickSpawnValue(defaultSpawnPolicy, source)
+    );
+    const fours = values.filter((value) => value === 4).length;
+
+    expect(new Set(values)).toEqual(new Set([2, 4]));
+    expect(fours).toBeGreaterThan(50);
+    expect(fours).toBeLessThan(150);
+  });
+});
+
+describe("findWorstSpawn", () => {
+  it("prefers a spawn that leaves no move", () => {
+    const board = createBoard([
+      [2, 4],
+      [4, 0],
+    ]);
+
+    expect(findWorstSpawn(board, defaultSpawnPolicy, pieceFactory)).toEqual({
+      coordinate: { rowIndex: 1, columnIndex: 1 },
+      value: 2,
+    });
+  });
+
+  it("returns null for a full board", () => {
+    const board = createBoard([
+      [2, 4],
+      [4, 2],
+    ]);
+
+    expect(findWorstSpawn(board, defaultSpawnPolicy, pieceFactory)).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+import { ShiftDirection } from "../common/shift-direction";
+import { type IGamePieceFactory } from "../factories/game-piece-factory";
+import { type IRandomSource } from "../random/random-source";
+import { type GridCoordinate, type IGameBoard } from "./game-board";
+
+/**
+ * A value new pieces can have, and how likely it is.
+ */
+export type SpawnOption = {
+  value: number;
+  /** The probability of the value, between `0` and `1`. */
+  probability: number;
+};
+
+/**
+ * The rules for the pieces that appear on the board after every move.
+ */
+export type SpawnPolicy = {
+  /** The values of new pieces; their probabilities add up to `1`. */
+  options: SpawnOption[];
+  /** The number of pieces spawned after every move. */
+  piecesPerMove: number;
+  /**
+   * `random` places pieces in random empty cells with random values.
+   * `evil` places every piece where it hurts the player most, see
+   * `findWorstSpawn`, ignoring the probabilities of the values.
+   */
+  mode: "random" | "evil";
+};
+
+export const defaultSpawnPolicy: SpawnPolicy = {
+  options: [
+    { value: 2, probability: 0.9 },
+    { value: 4, probability: 0.1 },
+  ],
+  piecesPerMove: 1,
+  mode: "random",
+};
+
+/**
+ * @param {SpawnPolicy} policy - The policy to check.
+ * @throws {Error} If the policy has no options, values that are not
+ * positive integers, probabilities that do not add up to `1`, spawns
+ * less than one piece per move, or has an unknown mode.
+ */
+export function validateSpawnPolicy(policy: SpawnPolicy) {
+  if (policy.options.length === 0) {
+    throw new Error("A spawn policy needs at least one value.");
+  }
+
+  for (const { value, probability } of policy.options) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid spawn value: ${value}.`);
+    }
+
+    if (!(probability >= 0 && probability <= 1)) {
+      throw new Error(`Invalid probability for ${value}: ${probability}.`);
+    }
+  }
+
+  const totalProbability = policy.options.reduce(
+    (total, { probability }) => total + probability,
+    0
+  );
+
+  if (Math.abs(totalProbability - 1) > 1e-9) {
+    throw new Error(
+      `Spawn probabilities must add up to 1, got ${totalProbability}.`
+    );
+  }
+
+  if (!Number.isInteger(policy.piecesPerMove) || policy.piecesPerMove < 1) {
+    throw new Error(`Invalid pieces per move: ${policy.piecesPerMove}.`);
+  }
+
+  if (policy.mode !== "random" && policy.mode !== "evil") {
+    throw new Error(`Invalid spawn mode: ${policy.mode}.`);
+  }
+}
+
+/**
+ * @param {SpawnPolicy} policy - The values to pick from.
+ * @param {IRandomSource} randomSource - Decides the value.
+ * @returns {number} A value picked according to the probabilities.
+ */
+export function pickSpawnValue(
+  policy: SpawnPolicy,
+  randomSource: IRandomSource
+): number {
+  let threshold = randomSource.next();
+
+  for (const { value, probability } of policy.options) {
+    threshold -= probability;
+
+    if (threshold < 0) return value;
+  }
+
+  // Rounding errors can leave a tiny share to the last value.
+  return policy.options[policy.options.length - 1].value;
+}
+
+/**
+ * Finds the spawn that leaves the player the worst best reply: the one
+ * after which no move is possible, or else after which the best move
+ * leaves the fewest empty cells. Ties go to the first cell, row by row,
+ * and to the first value of the policy.
+ *
+ * @param {IGameBoard} board - The board to spawn a piece on.
+ * @param {SpawnPolicy} policy - The values to choose from.
+ * @param {IGamePieceFactory} pieceFactory - Creates the pieces tried out.
+ * @returns {{coordinate: GridCoordinate, value: number}|null} The worst
+ * spawn, or `null` if the board is full.
+ */
+export function findWorstSpawn(
+  board: IGameBoard,
+  policy: SpawnPolicy,
+  pieceFactory: IGamePieceFactory
+): { coordinate: GridCoordinate; value: number } | null {
+  let worst: {
+    coordinate: GridCoordinate;
+    value: number;
+    emptyCount: number;
+  } | null = null;
+
+  for (const coordinate of board.getEmptyCoordinates()) {
+    for (const { value } of policy.options) {
+      const spawnedBoard = board.clone();
+      spawnedBoard.placeGamePiece(pieceFactory.createPiece(value), coordinate);
+
+      const emptyCount = Math.max(
+        -1,
+        ...[
+          ShiftDirection.Down,
+          ShiftDirection.Left,
+          ShiftDirection.Right,
+          ShiftDirection.Up,
+        ].map((direction) => {
+          const shiftedBoard = spawnedBoard.clone();
+
+          return shiftedBoard.shift(direction).hasMoved
+            ? shiftedBoard.getEmptyCoordinates().length
+            : -1;
+        })
+      );
+
+      if (!worst || emptyCount < worst.emptyCount) {
+        worst = { coordinate, value, emptyCount };
+      }
+    }
+  }
+
+  return worst && { coordinate: worst.coordinate, value: worst.value };
+}
@@ -0,0 +1,24 @@
+import { cryptoRandom } from "../common/crypto-random";
+import { cryptoRandomInt } from "../common/crypto-random-int";
+import { type IRandomSource } from "./random-source";
+
+/**
+ * A non-reproducible random source backed by the Web Crypto API.
+ */
+export class CryptoRandomSource implements IRandomSource {
+  next(): number {
+    return cryptoRandom();
+  }
+
+  nextInt(min: number, max: number): number {
+    return cryptoRandomInt(min, max);
+  }
+
+  getState(): number | null {
+    return null;
+  }
+
+  setState(): void {
+    throw new Error("CryptoRandomSource has no state that can be restored.");
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * A source of random numbers used for everything that is left to chance
+ * in the game, such as where new pieces spawn and which value they get.
+ *
+ * Implementations that can be seeded expose their internal state, so that
+ * a game can be saved and continued with exactly the same spawn sequence.
+ */
+export interface IRandomSource {
+  /**
+   * Generates a random number.
+   * @returns {number} A floating-point number in the range `[0, 1)`.
+   */
+  next(): number;
+
+  /**
+   * Generates a random integer between `min` and `max` (both inclusive).
+   * @param {number} min - The lowest value that can be returned.
+   * @param {number} max - The highest value that can be returned.
+   * @returns {number} A random integer in the range `[min, max]`.
+   */
+  nextInt(min: number, max: number): number;
+
+  /**
+   * Returns the internal state of the source.
+   * @returns {number|null} The current state, or `null` if the source
+   * has no state that could be restored.
+   */
+  getState(): number | null;
+
+  /**
+   * Restores a state previously returned by `getState`.
+   * @param {number} state - The state to restore.
+   * @throws {Error} If the source has no restorable state.
+   */
+  setState(state: number): void;
+}
@@ -0,0 +1,42 @@
+import { type IRandomSource } from "./random-source";
+
+/**
+ * A deterministic random source based on the Mulberry32 generator.
+ * Two sources created with the same seed produce the same sequence.
+ */
+export class SeededRandomSource implements IRandomSource {
+  #state: number;
+
+  /**
+   * @param {number} seed - Any integer, only its lowest 32 bits are used.
+   */
+  constructor(seed: number) {
+    this.#state = seed >>> 0;
+  }
+
+  next(): number {
+    this.#state = (this.#state + 0x6d2b79f5) >>> 0;
+
+    let t = this.#state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / (0xffffffff + 1);
+  }
+
+  nextInt(min: number, max: number): number {
+    if (min > max) {
+      throw new Error("Minimum value must be less than maximum value.");
+    }
+
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  getState(): number | null {
+    return this.#state;
+  }
+
+  setState(state: number) {
+    this.#state = state >>> 0;
+  }
+}
@@ -0,0 +1,48 @@
+import { type GameAgentRegistration } from "../ai/game-agent-registry";
+
+/**
+ * Responsible for rendering the list of agents the player can choose from.
+ */
+export interface IAgentSelectorRenderer {
+  /**
+   * Renders one option per agent into the associated select element.
+   *
+   * @param {GameAgentRegistration[]} registrations - The available agents.
+   * @param {string} selectedAgentId - The id of the agent currently in use.
+   */
+  renderAgentSelector(
+    registrations: GameAgentRegistration[],
+    selectedAgentId: string
+  ): void;
+}
+
+export class AgentSelectorRenderer implements IAgentSelectorRenderer {
+  #selectEl: HTMLSelectElement | null;
+
+  /**
+   * @param {HTMLElement|null} selectEl - The select element listing the agents.
+   * If it is not a select element, rendering will be skipped.
+   */
+  constructor(selectEl: HTMLElement | null) {
+    this.#selectEl = selectEl instanceof HTMLSelectElement ? selectEl : null;
+  }
+
+  renderAgentSelector(
+    registrations: GameAgentRegistration[],
+    selectedAgentId: string
+  ) {
+    if (!this.#selectEl) return;
+
+    this.#selectEl.innerHTML = "";
+
+    for (const { id, name, description } of registrations) {
+      const optionEl = document.createElement("option");
+      optionEl.value = id;
+      optionEl.title = description;
+      optionEl.innerText = name;
+      optionEl.selected = id === selectedAgentId;
+
+      this.#selectEl.append(optionEl);
+    }
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Responsible for showing whether a game agent is currently searching
+ * for a move, and how far along the search is.
+ */
+export interface IAgentStatusRenderer {
+  /**
+   * Renders the agent status into the associated DOM element.
+   *
+   * @param {number|null} progress - The completed share of the search between
+   * `0` and `1`, or `null` if the agent is idle.
+   */
+  renderAgentStatus(progress: number | null): void;
+
+  /**
+   * Reports why the agent failed, until the status is rendered again.
+   *
+   * @param {string} message - What went wrong.
+   */
+  renderAgentError(message: string): void;
+}
+
+export class AgentStatusRenderer implements IAgentStatusRenderer {
+  #statusEl: HTMLElement | null;
+
+  /**
+   * @param {HTMLElement|null} statusEl - The element displaying the agent status.
+   */
+  constructor(statusEl: HTMLElement | null) {
+    this.#statusEl = statusEl;
+  }
+
+  renderAgentStatus(progress: number | null) {
+    if (!this.#statusEl) return;
+
+    this.#statusEl.classList.toggle("agent-thinking", progress !== null);
+    this.#statusEl.innerText =
+      progress === null ? "" : `Thinking… ${Math.round(progress * 100)}%`;
+  }
+
+  renderAgentError(message: string) {
+    if (!this.#statusEl) return;
+
+    this.#statusEl.classList.remove("agent-thinking");
+    this.#statusEl.innerText = `The agent failed: ${message}`;
+  }
+}
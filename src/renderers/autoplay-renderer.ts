@@ -0,0 +1,82 @@
+import { ShiftDirectionMap } from "../common/shift-direction";
+import {
+  type GameAgentRecommendation,
+  type GameAgentSearchStatistics,
+} from "../ai/game-agent";
+
+/**
+ * Responsible for rendering the state of the autoplay mode: whether the
+ * agent is playing, and the last move it chose along with its evaluation.
+ */
+export interface IAutoplayRenderer {
+  /**
+   * Renders the autoplay state into the associated DOM elements.
+   *
+   * @param {boolean} isPlaying - Whether the agent is currently playing.
+   * @param {GameAgentRecommendation|null} lastRecommendation - The last move
+   * the agent chose, or `null` if it has not chosen one yet.
+   */
+  renderAutoplay(
+    isPlaying: boolean,
+    lastRecommendation: GameAgentRecommendation | null
+  ): void;
+
+  /**
+   * Reports why autoplay stopped, in place of the last decision, until
+   * autoplay is rendered again.
+   *
+   * @param {string} message - What went wrong.
+   */
+  renderError(message: string): void;
+}
+
+export class AutoplayRenderer implements IAutoplayRenderer {
+  #toggleButtonEl: HTMLElement | null;
+
+  #decisionEl: HTMLElement | null;
+
+  /**
+   * @param {HTMLElement|null} toggleButtonEl - The button starting and pausing autoplay.
+   * @param {HTMLElement|null} decisionEl - The element displaying the agent's last decision.
+   */
+  constructor(
+    toggleButtonEl: HTMLElement | null,
+    decisionEl: HTMLElement | null
+  ) {
+    this.#toggleButtonEl = toggleButtonEl;
+    this.#decisionEl = decisionEl;
+  }
+
+  renderAutoplay(
+    isPlaying: boolean,
+    lastRecommendation: GameAgentRecommendation | null
+  ) {
+    if (this.#toggleButtonEl) {
+      this.#toggleButtonEl.innerText = isPlaying ? "Pause" : "Autoplay";
+    }
+
+    if (this.#decisionEl) {
+      this.#decisionEl.innerText = lastRecommendation
+        ? `${ShiftDirectionMap[lastRecommendation.direction]} ` +
+          `(evaluation: ${lastRecommendation.evaluation.toFixed(1)}` +
+          `${this.#formatStatistics(lastRecommendation.statistics)})`
+        : "";
+    }
+  }
+
+  renderError(message: string) {
+    if (this.#decisionEl) {
+      this.#decisionEl.innerText = `Autoplay stopped: ${message}`;
+    }
+  }
+
+  #formatStatistics(statistics: GameAgentSearchStatistics | undefined) {
+    if (!statistics) return "";
+
+    return (
+      `, depth ${statistics.depth}, ` +
+      `${statistics.nodesVisited.toLocaleString()} nodes ` +
+      `in ${Math.round(statistics.elapsedTime)} ms`
+    );
+  }
+}
@@ -0,0 +1,211 @@
+import {
+  type ChallengeMode,
+  type ChallengeResults,
+  getChallengeKey,
+} from "../models/challenge-mode";
+
+/**
+ * Whether the result of a daily challenge has been copied, or copying it
+ * failed and the player has to select it instead.
+ */
+export type DailyResultCopyState = "not-copied" | "copied" | "failed";
+
+/**
+ * Responsible for rendering the challenge panel, a table of the modes
+ * with their goal, best result and a button starting them
+ * (`data-action="start"` with the mode id in `data-mode`), the timer
+ * or move counter of the challenge being played, and the result of a
+ * daily challenge along with a button copying it (`data-action="copy"`).
+ */
+export interface IChallengeRenderer {
+  /**
+   * @param {ChallengeMode[]} modes - The modes that can be played.
+   * @param {ChallengeMode} activeMode - The mode of the current game.
+   * @param {ChallengeResults} bestResults - The best result of every mode.
+   */
+  renderModes(
+    modes: ChallengeMode[],
+    activeMode: ChallengeMode,
+    bestResults: ChallengeResults
+  ): void;
+
+  /**
+   * @param {ChallengeMode} mode - The mode of the current game.
+   * @param {number} moveCount - The moves played so far.
+   * @param {number} remainingTime - The milliseconds left in a time attack.
+   * Ignored in other modes.
+   */
+  renderProgress(
+    mode: ChallengeMode,
+    moveCount: number,
+    remainingTime: number
+  ): void;
+
+  /**
+   * @param {string|null} result - The result of a finished daily
+   * challenge, see `formatDailyResult`, or `null` to hide it.
+   * @param {DailyResultCopyState} copyState - Whether the result has been
+   * copied.
+   */
+  renderDailyResult(
+    result: string | null,
+    copyState: DailyResultCopyState
+  ): void;
+}
+
+export class ChallengeRenderer implements IChallengeRenderer {
+  #classNames = {
+    activeMode: "challenge-active",
+  };
+
+  #panelEl: HTMLElement | null;
+
+  #progressEl: HTMLElement | null;
+
+  #dailyResultEl: HTMLElement | null;
+
+  /**
+   * @param {HTMLElement|null} panelEl - The element the table of modes is rendered into.
+   * @param {HTMLElement|null} progressEl - The element displaying the timer or move counter.
+   * @param {HTMLElement|null} dailyResultEl - The element displaying the result of a daily challenge.
+   */
+  constructor(
+    panelEl: HTMLElement | null,
+    progressEl: HTMLElement | null,
+    dailyResultEl: HTMLElement | null
+  ) {
+    this.#panelEl = panelEl;
+    this.#progressEl = progressEl;
+    this.#dailyResultEl = dailyResultEl;
+  }
+
+  renderModes(
+    modes: ChallengeMode[],
+    activeMode: ChallengeMode,
+    bestResults: ChallengeResults
+  ) {
+    if (!this.#panelEl) return;
+
+    const tableEl = document.createElement("table");
+    const headerRowEl = tableEl.createTHead().insertRow();
+
+    for (const heading of ["Mode", "Goal", "Best", ""]) {
+      const headingEl = document.createElement("th");
+      headingEl.innerText = heading;
+      headerRowEl.append(headingEl);
+    }
+
+    const bodyEl = tableEl.createTBody();
+
+    for (const mode of modes) {
+      const rowEl = bodyEl.insertRow();
+      const bestResult = bestResults[getChallengeKey(mode)];
+      const buttonEl = document.createElement("button");
+      buttonEl.classList.add("btn");
+      buttonEl.setAttribute("data-action", "start");
+      buttonEl.setAttribute("data-mode", mode.id);
+      buttonEl.innerText = "Play";
+
+      rowEl.classList.toggle(
+        this.#classNames.activeMode,
+        mode.id === activeMode.id
+      );
+      rowEl.insertCell().innerText = this.#formatName(mode);
+      rowEl.insertCell().innerText = this.#formatGoal(mode);
+      rowEl.insertCell().innerText =
+        bestResult === undefined ? "–" : this.#formatResult(mode, bestResult);
+      rowEl.insertCell().append(buttonEl);
+    }
+
+    this.#panelEl.innerHTML = "";
+    this.#panelEl.append(tableEl);
+  }
+
+  renderProgress(
+    mode: ChallengeMode,
+    moveCount: number,
+    remainingTime: number
+  ) {
+    if (!this.#progressEl) return;
+
+    switch (mode.id) {
+      case "time-attack": {
+        const seconds = Math.ceil(remainingTime / 1000);
+        this.#progressEl.innerText =
+          `Time left: ${Math.floor(seconds / 60)}:` +
+          `${(seconds % 60).toString().padStart(2, "0")}`;
+        break;
+      }
+      case "limited-moves":
+        this.#progressEl.innerText = `Moves left: ${Math.max(0, mode.moveLimit - moveCount)}`;
+        break;
+      case "fewest-moves":
+        this.#progressEl.innerText = `Moves: ${moveCount} (goal: ${mode.targetValue})`;
+        break;
+      case "daily":
+        this.#progressEl.innerText = `Daily ${mode.date}`;
+        break;
+      default:
+        this.#progressEl.innerText = "";
+    }
+  }
+
+  renderDailyResult(result: string | null, copyState: DailyResultCopyState) {
+    if (!this.#dailyResultEl) return;
+
+    this.#dailyResultEl.innerHTML = "";
+    this.#dailyResultEl.toggleAttribute("hidden", result === null);
+
+    if (result === null) return;
+
+    const resultEl = document.createElement("pre");
+    resultEl.innerText = result;
+    const buttonEl = document.createElement("button");
+    buttonEl.classList.add("btn");
+    buttonEl.setAttribute("data-action", "copy");
+    buttonEl.innerText = copyState === "copied" ? "Copied!" : "Copy result";
+
+    this.#dailyResultEl.append(resultEl, buttonEl);
+
+    if (copyState === "failed") {
+      const statusEl = document.createElement("p");
+      statusEl.innerText =
+        "The result could not be copied, select the text to copy it instead.";
+      this.#dailyResultEl.append(statusEl);
+    }
+  }
+
+  #formatName(mode: ChallengeMode): string {
+    switch (mode.id) {
+      case "classic":
+        return "Classic";
+      case "time-attack":
+        return "Time attack";
+      case "limited-moves":
+        return "Limited moves";
+      case "fewest-moves":
+        return "Fewest moves";
+      case "daily":
+        return "Daily";
+    }
+  }
+
+  #formatGoal(mode: ChallengeMode): string {
+    switch (mode.id) {
+      case "classic":
+        return "Play without limits";
+      case "time-attack":
+        return `Highest piece in ${Math.round(mode.timeLimit / 1000)} s`;
+      case "limited-moves":
+        return `Highest score in ${mode.moveLimit} moves`;
+      case "fewest-moves":
+        return `Reach ${mode.targetValue} in the fewest moves`;
+      case "daily":
+        return "Today's pieces, the same for everyone";
+    }
+  }
+
+  #formatResult(mode: ChallengeMode, result: number): string {
+    return mode.id === "fewest-moves" ? `${result} moves` : result.toString();
+  }
+}
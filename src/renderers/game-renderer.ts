@@ -1,5 +1,6 @@
 import { GameStatus } from "../common/game-status";
-import { type IGameBoard } from "../models/game-board";
+import { type GridCoordinate, type IGameBoard } from "../models/game-board";
+import { type MoveResult } from "../models/move-result";
 
 // FIXME: The GameRenderer assumes the provided gameBoardEl has the correct
 // styles applied instead of applying them through the class.
@@ -9,36 +10,83 @@ import { type IGameBoard } from "../models/game-board";
  * The `GameRenderer` takes a reference to a container element and updates
  * its HTML structure based on the current state of an `IGameBoard`.
  *
- * Each cell in the grid is represented by a `<div>` with a CSS class,
- * and game pieces are rendered as child elements with their value stored
- * in a `data-value` attribute.
+ * Each cell in the grid is represented by a `<div>` with a CSS class.
+ * Game pieces are rendered in a separate layer on top of the cells, with
+ * their value stored in a `data-value` attribute, the rank of the value
+ * under the merge rule of the board in a `data-rank` attribute, and their
+ * position in the `--row` and `--column` CSS variables. Pieces are coloured
+ * by rank, so that every variant gets the same palette. Every piece keeps the same element
+ * across moves, so moves can be animated with CSS transitions.
  */
 export interface IGameRenderer {
   /**
-   * Renders the entire game board into the associated DOM element.
-   * Clears any existing content and rebuilds the grid based on the
-   * provided board state.
+   * Renders the game board into the associated DOM element.
+   * Pieces already on screen are matched by their `id` and updated in place.
+   *
+   * When a move result is provided, pieces first slide to their new
+   * coordinates, after which merged pieces "pop" and spawned pieces fade in.
+   * Without it, the board is updated immediately.
    *
    * @param {IGameBoard} board - The game board instance to render.
+   * @param {MoveResult} [moveResult] - The move that led to the board state.
+   * @returns {Promise<void>} Resolves once all animations have finished.
    */
-  renderBoard(board: IGameBoard): void;
+  renderBoard(board: IGameBoard, moveResult?: MoveResult): Promise<void>;
 
   /**
    * Renders a game status message into the message board element.
    * Clears any existing content and displays a message based on the
-   * provided game status.
-   * 
+   * provided game status, along with the final score and the actions
+   * available: a won game offers to keep playing (`data-action="keep-playing"`)
+   * if its mode allows it, and to start a new game (`data-action="restart"`),
+   * a game that ended otherwise only the latter. Games that can still be
+   * played clear the message.
+   *
    * @param {GameStatus} status - The current game status to display.
+   * @param {number} score - The score reached in the game.
+   * @param {boolean} canKeepPlaying - Whether a won game can go on.
+   */
+  renderMessage(
+    status: GameStatus,
+    score: number,
+    canKeepPlaying: boolean
+  ): void;
+
+  /**
+   * Renders an error into the message board element, e.g. why the last
+   * game could not be resumed, with a button to dismiss it
+   * (`data-action="dismiss"`). The next status message replaces it.
+   *
+   * @param {string} message - The error to display.
    */
-  renderMessage(status: GameStatus): void;
+  renderError(message: string): void;
+
+  /**
+   * Renders the current and best score into the score board element.
+   *
+   * @param {number} score - The score of the current game.
+   * @param {number} bestScore - The highest score reached across games.
+   */
+  renderScore(score: number, bestScore: number): void;
 }
 
 export class GameRenderer implements IGameRenderer {
   #classNames = {
     gameBoardGridCell: "cell",
+    gameBoardGridCellBlocked: "cell-blocked",
+    gameBoardPieceLayer: "piece-layer",
     gamePiece: "game-piece",
+    gamePieceMerged: "game-piece-merged",
+    gamePieceSpawned: "game-piece-spawned",
     messageBoardGameWon: "game-won",
     messageBoardGameLost: "game-lost",
+    messageBoardGameOver: "game-over",
+    messageBoardError: "game-error",
+    messageBoardScore: "final-score",
+    messageBoardActions: "message-actions",
+    scoreBoardPanel: "score-panel",
+    scoreBoardPanelLabel: "score-panel-label",
+    scoreBoardPanelValue: "score-panel-value",
   };
 
   /**
@@ -50,58 +98,276 @@ export class GameRenderer implements IGameRenderer {
 
   #messageBoardEl: HTMLElement | null;
 
+  #scoreBoardEl: HTMLElement | null;
+
+  /**
+   * Must match the transition and animation durations in the stylesheet.
+   */
+  #animationDurationMs = 100;
+
+  #pieceLayerEl: HTMLElement | null = null;
+
+  /** Identifies the shape of the rendered grid, to render it only once. */
+  #renderedGridKey: string | null = null;
+
+  #gamePieceEls = new Map<number, HTMLElement>();
+
   /**
    * Creates a new renderer instance.
    *
    * @param {HTMLElement|null} gameBoardEl - The container element in which the game board
    * will be rendered. If `null`, rendering will be skipped.
+   * @param {HTMLElement|null} messageBoardEl - The element displaying the game status message.
+   * @param {HTMLElement|null} scoreBoardEl - The element displaying the current and best score.
    */
   constructor(
     gameBoardEl: HTMLElement | null,
-    messageBoardEl: HTMLElement | null
+    messageBoardEl: HTMLElement | null,
+    scoreBoardEl: HTMLElement | null
   ) {
     this.#gameBoardEl = gameBoardEl;
     this.#messageBoardEl = messageBoardEl;
+    this.#scoreBoardEl = scoreBoardEl;
   }
 
-  renderBoard(board: IGameBoard) {
+  async renderBoard(board: IGameBoard, moveResult?: MoveResult) {
     if (!this.#gameBoardEl) return;
 
+    this.#renderGrid(board);
+
+    if (moveResult) {
+      for (const transition of moveResult.transitions) {
+        const gamePieceEl = this.#gamePieceEls.get(transition.pieceId);
+
+        if (gamePieceEl) {
+          this.#positionGamePieceEl(gamePieceEl, transition.to);
+        }
+      }
+
+      await this.#wait(this.#animationDurationMs);
+    }
+
+    const mergedPieceIds = new Set(
+      moveResult?.merges.map(({ pieceId }) => pieceId)
+    );
+
+    this.#renderGamePieces(board, mergedPieceIds, moveResult !== undefined);
+
+    if (moveResult) {
+      await this.#wait(this.#animationDurationMs);
+    }
+  }
+
+  #renderGrid(board: IGameBoard) {
+    const { rowCount, columnCount, values } = board.serialize();
+    const gridKey = JSON.stringify([
+      rowCount,
+      columnCount,
+      board.getBlockedCoordinates(),
+    ]);
+
+    if (!this.#gameBoardEl || this.#renderedGridKey === gridKey) return;
+
     this.#gameBoardEl.innerHTML = "";
+    this.#gamePieceEls.clear();
 
-    document.documentElement.style.setProperty(
-      "--grid-size",
-      board.getSize().toString()
+    this.#gameBoardEl.style.setProperty(
+      "--grid-columns",
+      columnCount.toString()
     );
 
-    for (const row of board.getGrid()) {
-      for (const gamePiece of row) {
+    for (const row of values) {
+      for (const value of row) {
         const cellEl = document.createElement("div");
         cellEl.classList.add(this.#classNames.gameBoardGridCell);
+        // Blocked cells are serialized as `-1`.
+        cellEl.classList.toggle(
+          this.#classNames.gameBoardGridCellBlocked,
+          value === -1
+        );
+        this.#gameBoardEl.appendChild(cellEl);
+      }
+    }
+
+    this.#pieceLayerEl = document.createElement("div");
+    this.#pieceLayerEl.classList.add(this.#classNames.gameBoardPieceLayer);
+    this.#gameBoardEl.appendChild(this.#pieceLayerEl);
+
+    this.#renderedGridKey = gridKey;
+  }
+
+  #renderGamePieces(
+    board: IGameBoard,
+    mergedPieceIds: Set<number>,
+    animate: boolean
+  ) {
+    const renderedPieceIds = new Set<number>();
+    const grid = board.getGrid();
+
+    for (let rowIndex = 0; rowIndex < grid.length; rowIndex += 1) {
+      for (
+        let columnIndex = 0;
+        columnIndex < grid[rowIndex].length;
+        columnIndex += 1
+      ) {
+        const gamePiece = grid[rowIndex][columnIndex];
 
-        if (gamePiece) {
-          const gamePieceEl = document.createElement("div");
+        if (!gamePiece) continue;
+
+        let gamePieceEl = this.#gamePieceEls.get(gamePiece.id);
+
+        if (!gamePieceEl) {
+          gamePieceEl = document.createElement("div");
           gamePieceEl.classList.add(this.#classNames.gamePiece);
-          gamePieceEl.setAttribute("data-value", gamePiece.value.toString());
-          cellEl.append(gamePieceEl);
+          this.#gamePieceEls.set(gamePiece.id, gamePieceEl);
+          this.#pieceLayerEl?.appendChild(gamePieceEl);
+
+          if (animate) {
+            this.#playAnimation(gamePieceEl, this.#classNames.gamePieceSpawned);
+          }
+        } else if (animate && mergedPieceIds.has(gamePiece.id)) {
+          this.#playAnimation(gamePieceEl, this.#classNames.gamePieceMerged);
         }
 
-        this.#gameBoardEl.appendChild(cellEl);
+        gamePieceEl.setAttribute("data-value", gamePiece.value.toString());
+        gamePieceEl.setAttribute(
+          "data-rank",
+          board.getMergeRule().getRank(gamePiece.value).toString()
+        );
+        this.#positionGamePieceEl(gamePieceEl, { rowIndex, columnIndex });
+        renderedPieceIds.add(gamePiece.id);
+      }
+    }
+
+    for (const [pieceId, gamePieceEl] of this.#gamePieceEls) {
+      if (!renderedPieceIds.has(pieceId)) {
+        gamePieceEl.remove();
+        this.#gamePieceEls.delete(pieceId);
       }
     }
   }
 
-  renderMessage(status: GameStatus) {
+  #positionGamePieceEl(gamePieceEl: HTMLElement, coordinate: GridCoordinate) {
+    gamePieceEl.style.setProperty("--row", coordinate.rowIndex.toString());
+    gamePieceEl.style.setProperty(
+      "--column",
+      coordinate.columnIndex.toString()
+    );
+  }
+
+  #playAnimation(gamePieceEl: HTMLElement, className: string) {
+    gamePieceEl.classList.remove(className);
+    // Force a reflow so that re-adding the class restarts the animation.
+    void gamePieceEl.offsetWidth;
+    gamePieceEl.classList.add(className);
+  }
+
+  #wait(durationMs: number) {
+    return new Promise<void>((resolve) => setTimeout(resolve, durationMs));
+  }
+
+  renderMessage(status: GameStatus, score: number, canKeepPlaying: boolean) {
     if (!this.#messageBoardEl) return;
 
     this.#messageBoardEl.innerHTML = "";
+    this.#messageBoardEl.classList.remove(
+      this.#classNames.messageBoardGameLost,
+      this.#classNames.messageBoardGameOver,
+      this.#classNames.messageBoardGameWon,
+      this.#classNames.messageBoardError
+    );
+
+    const titleEl = document.createElement("div");
+    const scoreEl = document.createElement("div");
+    scoreEl.classList.add(this.#classNames.messageBoardScore);
+    scoreEl.innerText = `Score: ${score}`;
+    const actionsEl = document.createElement("div");
+    actionsEl.classList.add(this.#classNames.messageBoardActions);
 
     if (status === GameStatus.Lost) {
-      this.#messageBoardEl.innerText = "You Lost!";
+      titleEl.innerText = "You Lost!";
       this.#messageBoardEl.classList.add(this.#classNames.messageBoardGameLost);
+      actionsEl.append(this.#createActionButton("restart", "Try again"));
     } else if (status === GameStatus.Won) {
-      this.#messageBoardEl.innerText = "You Won!";
+      titleEl.innerText = "You Won!";
       this.#messageBoardEl.classList.add(this.#classNames.messageBoardGameWon);
+
+      if (canKeepPlaying) {
+        actionsEl.append(
+          this.#createActionButton("keep-playing", "Keep going")
+        );
+      }
+
+      actionsEl.append(this.#createActionButton("restart", "New game"));
+    } else if (
+      status === GameStatus.TimeUp ||
+      status === GameStatus.OutOfMoves
+    ) {
+      titleEl.innerText =
+        status === GameStatus.TimeUp ? "Time's Up!" : "Out of Moves!";
+      this.#messageBoardEl.classList.add(this.#classNames.messageBoardGameOver);
+      actionsEl.append(this.#createActionButton("restart", "Play again"));
+    } else {
+      return;
     }
+
+    this.#messageBoardEl.append(titleEl, scoreEl, actionsEl);
+  }
+
+  renderError(message: string) {
+    if (!this.#messageBoardEl) return;
+
+    this.#messageBoardEl.innerHTML = "";
+    this.#messageBoardEl.classList.remove(
+      this.#classNames.messageBoardGameLost,
+      this.#classNames.messageBoardGameOver,
+      this.#classNames.messageBoardGameWon
+    );
+    this.#messageBoardEl.classList.add(this.#classNames.messageBoardError);
+
+    const textEl = document.createElement("div");
+    textEl.classList.add(this.#classNames.messageBoardScore);
+    textEl.innerText = message;
+    const actionsEl = document.createElement("div");
+    actionsEl.classList.add(this.#classNames.messageBoardActions);
+    actionsEl.append(this.#createActionButton("dismiss", "OK"));
+
+    this.#messageBoardEl.append(textEl, actionsEl);
+  }
+
+  #createActionButton(action: string, label: string) {
+    const buttonEl = document.createElement("button");
+    buttonEl.classList.add("btn");
+    buttonEl.setAttribute("data-action", action);
+    buttonEl.innerText = label;
+
+    return buttonEl;
+  }
+
+  renderScore(score: number, bestScore: number) {
+    if (!this.#scoreBoardEl) return;
+
+    this.#scoreBoardEl.innerHTML = "";
+    this.#scoreBoardEl.append(
+      this.#createScorePanel("Score", score),
+      this.#createScorePanel("Best", bestScore)
+    );
+  }
+
+  #createScorePanel(label: string, value: number) {
+    const panelEl = document.createElement("div");
+    panelEl.classList.add(this.#classNames.scoreBoardPanel);
+
+    const labelEl = document.createElement("div");
+    labelEl.classList.add(this.#classNames.scoreBoardPanelLabel);
+    labelEl.innerText = label;
+
+    const valueEl = document.createElement("div");
+    valueEl.classList.add(this.#classNames.scoreBoardPanelValue);
+    valueEl.innerText = value.toString();
+
+    panelEl.append(labelEl, valueEl);
+
+    return panelEl;
   }
 }
@@ -0,0 +1,71 @@
+import { type HeuristicWeights } from "../ai/game-agent";
+
+/**
+ * The names the heuristic features are shown with.
+ */
+export const heuristicFeatureLabels: Record<keyof HeuristicWeights, string> = {
+  emptyCoordinates: "Empty cells",
+  smoothness: "Smoothness",
+  monotonicity: "Monotonicity",
+  cornerBonus: "Highest piece in a corner",
+  highestValue: "Highest piece value",
+};
+
+/**
+ * Responsible for rendering the heuristic weights panel.
+ *
+ * The panel consists of one number input per weight, named after the
+ * heuristic feature it weighs, and a button to restore the defaults.
+ */
+export interface IHeuristicWeightsRenderer {
+  /**
+   * Renders the heuristic weights panel into the associated DOM element.
+   *
+   * @param {HeuristicWeights} weights - The weights the agent currently uses.
+   */
+  renderHeuristicWeights(weights: HeuristicWeights): void;
+}
+
+export class HeuristicWeightsRenderer implements IHeuristicWeightsRenderer {
+  #classNames = {
+    row: "heuristic-weight",
+  };
+
+  #containerEl: HTMLElement | null;
+
+  /**
+   * @param {HTMLElement|null} containerEl - The element the panel is rendered in.
+   * If `null`, rendering will be skipped.
+   */
+  constructor(containerEl: HTMLElement | null) {
+    this.#containerEl = containerEl;
+  }
+
+  renderHeuristicWeights(weights: HeuristicWeights) {
+    if (!this.#containerEl) return;
+
+    this.#containerEl.innerHTML = "";
+
+    for (const [feature, label] of Object.entries(heuristicFeatureLabels)) {
+      const rowEl = document.createElement("label");
+      rowEl.classList.add(this.#classNames.row);
+      rowEl.innerText = label;
+
+      const inputEl = document.createElement("input");
+      inputEl.type = "number";
+      inputEl.step = "any";
+      inputEl.name = feature;
+      inputEl.value = weights[feature as keyof HeuristicWeights].toString();
+
+      rowEl.append(inputEl);
+      this.#containerEl.append(rowEl);
+    }
+
+    const resetButtonEl = document.createElement("button");
+    resetButtonEl.classList.add("btn");
+    resetButtonEl.setAttribute("data-action", "reset");
+    resetButtonEl.innerText = "Reset to defaults";
+
+    this.#containerEl.append(resetButtonEl);
+  }
+}
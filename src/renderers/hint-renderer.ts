@@ -0,0 +1,180 @@
+import { ShiftDirection, ShiftDirectionMap } from "../common/shift-direction";
+import { type GameAgentRecommendation } from "../ai/game-agent";
+import { heuristicFeatureLabels } from "./heuristic-weights-renderer";
+
+/**
+ * Responsible for rendering the hint overlay: an arrow on the board
+ * pointing in the recommended direction, a score bar for every direction,
+ * and, when the agent provides them, the heuristic features and search
+ * statistics behind the recommendation.
+ *
+ * The overlay contains a button to play the recommended move
+ * (`data-action="play"`) and one to close the hint (`data-action="dismiss"`).
+ */
+export interface IHintRenderer {
+  /**
+   * Renders the hint overlay into the associated DOM element.
+   *
+   * @param {GameAgentRecommendation|null} recommendation - The recommendation
+   * to explain, or `null` to hide the overlay.
+   */
+  renderHint(recommendation: GameAgentRecommendation | null): void;
+}
+
+export class HintRenderer implements IHintRenderer {
+  #classNames = {
+    arrow: "hint-arrow",
+    panel: "hint-panel",
+    scoreBar: "hint-score-bar",
+    scoreBarRecommended: "hint-score-bar-recommended",
+    scoreBarFill: "hint-score-bar-fill",
+    heuristics: "hint-heuristics",
+    statistics: "hint-statistics",
+    actions: "hint-actions",
+  };
+
+  #arrows: Record<ShiftDirection, string> = {
+    [ShiftDirection.Down]: "↓",
+    [ShiftDirection.Left]: "←",
+    [ShiftDirection.Right]: "→",
+    [ShiftDirection.Up]: "↑",
+  };
+
+  /** The order of the score bars. */
+  #directionOrder = [
+    ShiftDirection.Up,
+    ShiftDirection.Left,
+    ShiftDirection.Right,
+    ShiftDirection.Down,
+  ];
+
+  #overlayEl: HTMLElement | null;
+
+  /**
+   * @param {HTMLElement|null} overlayEl - The element laid over the game board.
+   * If `null`, rendering will be skipped.
+   */
+  constructor(overlayEl: HTMLElement | null) {
+    this.#overlayEl = overlayEl;
+  }
+
+  renderHint(recommendation: GameAgentRecommendation | null) {
+    if (!this.#overlayEl) return;
+
+    this.#overlayEl.innerHTML = "";
+    this.#overlayEl.toggleAttribute("hidden", recommendation === null);
+
+    if (!recommendation) return;
+
+    const arrowEl = document.createElement("div");
+    arrowEl.classList.add(this.#classNames.arrow);
+    arrowEl.innerText = this.#arrows[recommendation.direction];
+
+    const panelEl = document.createElement("div");
+    panelEl.classList.add(this.#classNames.panel);
+    panelEl.append(this.#createScoreBars(recommendation));
+
+    if (recommendation.heuristics) {
+      panelEl.append(this.#createHeuristics(recommendation.heuristics));
+    }
+
+    if (recommendation.statistics) {
+      const { depth, nodesVisited } = recommendation.statistics;
+      const statisticsEl = document.createElement("div");
+      statisticsEl.classList.add(this.#classNames.statistics);
+      statisticsEl.innerText = `Depth ${depth}, ${nodesVisited} nodes visited`;
+      panelEl.append(statisticsEl);
+    }
+
+    panelEl.append(this.#createActions(recommendation.direction));
+    this.#overlayEl.append(arrowEl, panelEl);
+  }
+
+  /**
+   * Bars are scaled between the lowest and the highest evaluation, since
+   * evaluations can be negative. Directions that don't change the board
+   * get an empty bar.
+   */
+  #createScoreBars({ direction, moveEvaluations }: GameAgentRecommendation) {
+    const listEl = document.createElement("div");
+    const evaluations = moveEvaluations.map(({ evaluation }) => evaluation);
+    const min = Math.min(...evaluations);
+    const range = Math.max(...evaluations) - min;
+
+    for (const barDirection of this.#directionOrder) {
+      const moveEvaluation = moveEvaluations.find(
+        (candidate) => candidate.direction === barDirection
+      );
+      const barEl = document.createElement("div");
+      barEl.classList.add(this.#classNames.scoreBar);
+      barEl.classList.toggle(
+        this.#classNames.scoreBarRecommended,
+        barDirection === direction
+      );
+
+      const labelEl = document.createElement("span");
+      labelEl.innerText = ShiftDirectionMap[barDirection];
+
+      const fillEl = document.createElement("span");
+      fillEl.classList.add(this.#classNames.scoreBarFill);
+
+      const valueEl = document.createElement("span");
+
+      if (moveEvaluation) {
+        // The lowest move still gets a sliver, to tell it from invalid moves.
+        const share =
+          range === 0 ? 1 : (moveEvaluation.evaluation - min) / range;
+        fillEl.style.setProperty("--share", (0.05 + 0.95 * share).toString());
+        valueEl.innerText = moveEvaluation.evaluation.toFixed(1);
+      } else {
+        fillEl.style.setProperty("--share", "0");
+        valueEl.innerText = "–";
+      }
+
+      barEl.append(labelEl, fillEl, valueEl);
+      listEl.append(barEl);
+    }
+
+    return listEl;
+  }
+
+  #createHeuristics(
+    heuristics: NonNullable<GameAgentRecommendation["heuristics"]>
+  ) {
+    const tableEl = document.createElement("table");
+    tableEl.classList.add(this.#classNames.heuristics);
+
+    for (const [feature, label] of Object.entries(heuristicFeatureLabels)) {
+      const { value, weightedValue } =
+        heuristics[feature as keyof typeof heuristicFeatureLabels];
+      const rowEl = tableEl.insertRow();
+
+      rowEl.insertCell().innerText = label;
+      rowEl.insertCell().innerText = Number.isInteger(value)
+        ? value.toString()
+        : value.toFixed(2);
+      rowEl.insertCell().innerText = weightedValue.toFixed(1);
+    }
+
+    return tableEl;
+  }
+
+  #createActions(direction: ShiftDirection) {
+    const actionsEl = document.createElement("div");
+    actionsEl.classList.add(this.#classNames.actions);
+
+    const playButtonEl = document.createElement("button");
+    playButtonEl.classList.add("btn");
+    playButtonEl.setAttribute("data-action", "play");
+    playButtonEl.innerText = `Play ${ShiftDirectionMap[direction]}`;
+
+    const dismissButtonEl = document.createElement("button");
+    dismissButtonEl.classList.add("btn");
+    dismissButtonEl.setAttribute("data-action", "dismiss");
+    dismissButtonEl.innerText = "Dismiss";
+
+    actionsEl.append(playButtonEl, dismissButtonEl);
+
+    return actionsEl;
+  }
+}
@@ -0,0 +1,115 @@
+import { InputAction, InputActionMap } from "../input/input-action";
+import { getKeysForAction, type KeyBindings } from "../input/key-bindings";
+
+/**
+ * Responsible for rendering the key bindings settings panel.
+ *
+ * The panel consists of a `<select>` with the available presets and one
+ * row per action, listing its keys and a button to rebind it. Buttons carry
+ * the action they rebind in a `data-action` attribute, so that event
+ * handling can be delegated to the container element.
+ */
+export interface IKeyBindingsRenderer {
+  /**
+   * Renders the key bindings panel into the associated DOM element.
+   *
+   * @param {KeyBindings} bindings - The current key bindings.
+   * @param {string[]} presetNames - The names of the available presets.
+   * @param {string|null} activePresetName - The preset matching the bindings,
+   * or `null` if they have been customized.
+   * @param {InputAction|null} capturingAction - The action waiting for a key
+   * press to be bound to, if any.
+   */
+  renderKeyBindings(
+    bindings: KeyBindings,
+    presetNames: string[],
+    activePresetName: string | null,
+    capturingAction: InputAction | null
+  ): void;
+}
+
+export class KeyBindingsRenderer implements IKeyBindingsRenderer {
+  #classNames = {
+    row: "key-binding",
+    label: "key-binding-label",
+    keys: "key-binding-keys",
+    capturing: "key-binding-capturing",
+  };
+
+  #actionLabels: Record<InputAction, string> = {
+    [InputAction.ShiftDown]: "Move down",
+    [InputAction.ShiftLeft]: "Move left",
+    [InputAction.ShiftRight]: "Move right",
+    [InputAction.ShiftUp]: "Move up",
+    [InputAction.Undo]: "Undo",
+    [InputAction.Redo]: "Redo",
+    [InputAction.Hint]: "AI suggestion",
+  };
+
+  #containerEl: HTMLElement | null;
+
+  /**
+   * @param {HTMLElement|null} containerEl - The element the panel is rendered in.
+   * If `null`, rendering will be skipped.
+   */
+  constructor(containerEl: HTMLElement | null) {
+    this.#containerEl = containerEl;
+  }
+
+  renderKeyBindings(
+    bindings: KeyBindings,
+    presetNames: string[],
+    activePresetName: string | null,
+    capturingAction: InputAction | null
+  ) {
+    if (!this.#containerEl) return;
+
+    this.#containerEl.innerHTML = "";
+
+    const presetSelectEl = document.createElement("select");
+    presetSelectEl.name = "preset";
+
+    for (const presetName of [...presetNames, null]) {
+      const optionEl = document.createElement("option");
+      optionEl.value = presetName ?? "";
+      optionEl.innerText = presetName ?? "Custom";
+      optionEl.disabled = presetName === null;
+      optionEl.selected = presetName === activePresetName;
+      presetSelectEl.append(optionEl);
+    }
+
+    this.#containerEl.append(presetSelectEl);
+
+    for (const actionName of InputActionMap) {
+      const action = InputAction[actionName as keyof typeof InputAction];
+
+      const rowEl = document.createElement("div");
+      rowEl.classList.add(this.#classNames.row);
+
+      const labelEl = document.createElement("span");
+      labelEl.classList.add(this.#classNames.label);
+      labelEl.innerText = this.#actionLabels[action];
+
+      const keysEl = document.createElement("span");
+      keysEl.classList.add(this.#classNames.keys);
+      keysEl.innerText =
+        getKeysForAction(bindings, action)
+          .map((key) => (key === " " ? "Space" : key))
+          .join(", ") || "—";
+
+      const rebindButtonEl = document.createElement("button");
+      rebindButtonEl.classList.add("btn");
+      rebindButtonEl.setAttribute("data-action", actionName);
+
+      if (action === capturingAction) {
+        rowEl.classList.add(this.#classNames.capturing);
+        rebindButtonEl.innerText = "Press a key…";
+      } else {
+        rebindButtonEl.innerText = "Change";
+      }
+
+      rowEl.append(labelEl, keysEl, rebindButtonEl);
+      this.#containerEl.append(rowEl);
+    }
+  }
+}
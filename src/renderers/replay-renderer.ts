@@ -0,0 +1,80 @@
+/**
+ * The state of the replay being played back.
+ */
+export type ReplayPlaybackState = {
+  /** The number of moves played back so far. */
+  position: number;
+  moveCount: number;
+  /** The score after the moves played back so far. */
+  score: number;
+  isPlaying: boolean;
+};
+
+/**
+ * Responsible for rendering the playback controls of the replay panel:
+ * the position slider (`name="position"`), the position and score, and
+ * the play button (`data-action="play"`), as well as status messages.
+ */
+export interface IReplayRenderer {
+  /**
+   * @param {ReplayPlaybackState|null} state - The playback state, or
+   * `null` if no replay is loaded.
+   */
+  renderPlayback(state: ReplayPlaybackState | null): void;
+
+  /**
+   * @param {string} message - A message about the last action, e.g. a
+   * failed import. An empty string clears it.
+   */
+  renderStatus(message: string): void;
+}
+
+export class ReplayRenderer implements IReplayRenderer {
+  #panelEl: HTMLElement | null;
+
+  /**
+   * @param {HTMLElement|null} panelEl - The element containing the playback controls.
+   * If `null`, rendering will be skipped.
+   */
+  constructor(panelEl: HTMLElement | null) {
+    this.#panelEl = panelEl;
+  }
+
+  renderPlayback(state: ReplayPlaybackState | null) {
+    if (!this.#panelEl) return;
+
+    const positionInputEl = this.#panelEl.querySelector('[name="position"]');
+    const positionEl = this.#panelEl.querySelector(".replay-position");
+    const playButtonEl = this.#panelEl.querySelector('[data-action="play"]');
+
+    if (positionInputEl instanceof HTMLInputElement) {
+      positionInputEl.max = (state?.moveCount ?? 0).toString();
+      positionInputEl.value = (state?.position ?? 0).toString();
+    }
+
+    if (positionEl instanceof HTMLElement) {
+      positionEl.innerText = state
+        ? `Move ${state.position} / ${state.moveCount}, score ${state.score}`
+        : "No replay loaded";
+    }
+
+    if (playButtonEl instanceof HTMLElement) {
+      playButtonEl.innerText = state?.isPlaying ? "Pause" : "Play";
+    }
+
+    for (const controlEl of this.#panelEl.querySelectorAll(
+      ".replay-playback button, .replay-playback input"
+    )) {
+      (controlEl as HTMLButtonElement | HTMLInputElement).disabled =
+        state === null;
+    }
+  }
+
+  renderStatus(message: string) {
+    const statusEl = this.#panelEl?.querySelector(".replay-status");
+
+    if (statusEl instanceof HTMLElement) {
+      statusEl.innerText = message;
+    }
+  }
+}
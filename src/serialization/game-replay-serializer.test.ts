@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { ShiftDirection } from "../common/shift-direction";
+import { type GameReplay } from "../models/game-replay";
+import {
+  GameReplaySerializationError,
+  GameReplaySerializer,
+} from "./game-replay-serializer";
+
+const replay: GameReplay = {
+  initialBoard: {
+    rowCount: 2,
+    columnCount: 2,
+    values: [
+      [2, 0],
+      [0, 2],
+    ],
+  },
+  initialScore: 0,
+  randomState: 42,
+  moves: [
+    {
+      direction: ShiftDirection.Left,
+      spawns: [{ coordinate: { rowIndex: 1, columnIndex: 1 }, value: 4 }],
+    },
+  ],
+};
+
+describe("GameReplaySerializer", () => {
+  const serializer = new GameReplaySerializer();
+
+  it("restores a serialized replay", () => {
+    expect(serializer.deserialize(serializer.serialize(replay))).toEqual(
+      replay
+    );
+  });
+
+  it.each([
+    ["invalid JSON", "{"],
+    ["an unsupported version", JSON.stringify({ version: 0 })],
+    [
+      "an unknown direction",
+      serializer
+        .serialize(replay)
+        .replace('"direction":"Left"', '"direction":"Sideways"'),
+    ],
+    [
+      "malformed spawns",
+      serializer.serialize(replay).replace("[1,1,4]", "[1,4]"),
+    ],
+  ])("rejects %s", (_, serializedReplay) => {
+    expect(() => serializer.deserialize(serializedReplay)).toThrow(
+      GameReplaySerializationError
+    );
+  });
+});
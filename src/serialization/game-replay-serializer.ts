@@ -0,0 +1,175 @@
+import { ShiftDirection } from "../common/shift-direction";
+import { type SerializedGameBoard } from "../models/game-board";
+import { type GameReplay, type ReplayMove } from "../models/game-replay";
+
+/**
+ * The JSON representation of a `GameReplay`, as exported to a file.
+ * The `version` is bumped whenever the format changes incompatibly.
+ */
+export type SerializedGameReplay = {
+  version: number;
+  initialBoard: SerializedGameBoard;
+  initialScore: number;
+  randomState: number | null;
+  moves: {
+    direction: keyof typeof ShiftDirection;
+    /** The spawned pieces as `[rowIndex, columnIndex, value]`. */
+    spawns: [number, number, number][];
+  }[];
+};
+
+/**
+ * Thrown when a serialized replay is malformed or uses an unsupported version.
+ */
+export class GameReplaySerializationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GameReplaySerializationError";
+  }
+}
+
+/**
+ * Converts a replay to and from a versioned JSON string.
+ */
+export interface IGameReplaySerializer {
+  /**
+   * @param {GameReplay} replay - The replay to serialize.
+   * @returns {string} The serialized replay.
+   */
+  serialize(replay: GameReplay): string;
+
+  /**
+   * @param {string} serializedReplay - A string produced by `serialize`.
+   * @returns {GameReplay} The restored replay.
+   * @throws {GameReplaySerializationError} If the string is not a valid
+   * replay or was written by an unsupported version of the format.
+   */
+  deserialize(serializedReplay: string): GameReplay;
+}
+
+export class GameReplaySerializer implements IGameReplaySerializer {
+  static readonly version = 2;
+
+  serialize(replay: GameReplay): string {
+    const serializedReplay: SerializedGameReplay = {
+      version: GameReplaySerializer.version,
+      initialBoard: replay.initialBoard,
+      initialScore: replay.initialScore,
+      randomState: replay.randomState,
+      moves: replay.moves.map(({ direction, spawns }) => ({
+        direction: ShiftDirection[direction] as keyof typeof ShiftDirection,
+        spawns: spawns.map(({ coordinate, value }) => [
+          coordinate.rowIndex,
+          coordinate.columnIndex,
+          value,
+        ]),
+      })),
+    };
+
+    return JSON.stringify(serializedReplay);
+  }
+
+  deserialize(serializedReplay: string): GameReplay {
+    let parsedReplay: Partial<SerializedGameReplay>;
+
+    try {
+      parsedReplay = JSON.parse(serializedReplay);
+    } catch {
+      throw new GameReplaySerializationError("Replay is not valid JSON.");
+    }
+
+    if (typeof parsedReplay !== "object" || parsedReplay === null) {
+      throw new GameReplaySerializationError("Replay is not an object.");
+    }
+
+    if (parsedReplay.version !== GameReplaySerializer.version) {
+      throw new GameReplaySerializationError(
+        `Replay uses format version ${parsedReplay.version}, ` +
+          `but only version ${GameReplaySerializer.version} is supported.`
+      );
+    }
+
+    const { initialBoard, initialScore, randomState, moves } = parsedReplay;
+
+    if (
+      typeof initialBoard !== "object" ||
+      initialBoard === null ||
+      !Number.isInteger(initialBoard.rowCount) ||
+      !Number.isInteger(initialBoard.columnCount) ||
+      !Array.isArray(initialBoard.values)
+    ) {
+      throw new GameReplaySerializationError("Replay has no initial board.");
+    }
+
+    if (
+      typeof initialScore !== "number" ||
+      !Number.isInteger(initialScore) ||
+      initialScore < 0
+    ) {
+      throw new GameReplaySerializationError(
+        `Invalid initial score: ${initialScore}.`
+      );
+    }
+
+    if (
+      randomState !== null &&
+      (typeof randomState !== "number" ||
+        !Number.isInteger(randomState) ||
+        randomState < 0 ||
+        randomState > 0xffffffff)
+    ) {
+      throw new GameReplaySerializationError(
+        `Invalid random state: ${randomState}.`
+      );
+    }
+
+    if (!Array.isArray(moves)) {
+      throw new GameReplaySerializationError("Replay has no moves.");
+    }
+
+    return {
+      initialBoard,
+      initialScore,
+      randomState,
+      moves: moves.map((move, index) => this.#deserializeMove(move, index)),
+    };
+  }
+
+  #deserializeMove(
+    move: SerializedGameReplay["moves"][number],
+    index: number
+  ): ReplayMove {
+    const { direction, spawns } = move ?? {};
+
+    if (
+      typeof direction !== "string" ||
+      typeof ShiftDirection[direction] !== "number"
+    ) {
+      throw new GameReplaySerializationError(
+        `Invalid direction of move ${index + 1}: ${direction}.`
+      );
+    }
+
+    if (
+      !Array.isArray(spawns) ||
+      spawns.some(
+        (spawn) =>
+          !Array.isArray(spawn) ||
+          spawn.length !== 3 ||
+          spawn.some((value) => !Number.isInteger(value) || value < 0)
+      )
+    ) {
+      throw new GameReplaySerializationError(
+        `Invalid spawns of move ${index + 1}.`
+      );
+    }
+
+    return {
+      direction: ShiftDirection[direction],
+      spawns: spawns.map(([rowIndex, columnIndex, value]) => ({
+        coordinate: { rowIndex, columnIndex },
+        value,
+      })),
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { GameStatus } from "../common/game-status";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { GameBoard } from "../models/game-board";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import {
+  GameStateSerializationError,
+  GameStateSerializer,
+} from "./game-state-serializer";
+
+const randomSource = new SeededRandomSource(1);
+const pieceFactory = new DefaultGamePieceFactory(randomSource);
+
+const state = {
+  board: GameBoard.deserialize(
+    {
+      rowCount: 2,
+      columnCount: 2,
+      values: [
+        [2, 0],
+        [0, 4],
+      ],
+    },
+    pieceFactory,
+    randomSource
+  ),
+  score: 12,
+  status: GameStatus.InProgress,
+  moveCount: 3,
+  randomState: 42,
+};
+
+describe("GameStateSerializer", () => {
+  const serializer = new GameStateSerializer(pieceFactory, randomSource);
+  const serializedState = serializer.serialize(state);
+
+  it("restores a serialized game", () => {
+    const restoredState = serializer.deserialize(serializedState);
+
+    expect(restoredState.board.serialize()).toEqual(state.board.serialize());
+    expect(restoredState).toMatchObject({
+      score: 12,
+      status: GameStatus.InProgress,
+      moveCount: 3,
+      randomState: 42,
+    });
+  });
+
+  it.each([
+    ["invalid JSON", "{", "Saved game is not valid JSON."],
+    ["a value that is not an object", "42", "Saved game is not an object."],
+    [
+      "an unsupported version",
+      serializedState.replace('"version":3', '"version":2'),
+      "Saved game uses format version 2, but only version 3 is supported.",
+    ],
+    [
+      "a missing version",
+      serializedState.replace('"version":3,', ""),
+      "Saved game uses format version undefined",
+    ],
+    [
+      "a negative score",
+      serializedState.replace('"score":12', '"score":-1'),
+      "Invalid score: -1.",
+    ],
+    [
+      "an unknown status",
+      serializedState.replace('"status":"InProgress"', '"status":"Paused"'),
+      "Invalid game status: Paused.",
+    ],
+    [
+      "a random state beyond 32 bits",
+      serializedState.replace('"randomState":42', '"randomState":4294967296'),
+      "Invalid random state: 4294967296.",
+    ],
+    [
+      "a grid with fewer rows than its shape",
+      serializedState.replace('"rowCount":2', '"rowCount":3'),
+      "Invalid board:",
+    ],
+    [
+      "a grid with more columns than its shape",
+      serializedState.replace('"columnCount":2', '"columnCount":1'),
+      "Invalid board:",
+    ],
+  ])("rejects %s", (_, invalidState, message) => {
+    expect(() => serializer.deserialize(invalidState)).toThrow(
+      GameStateSerializationError
+    );
+    expect(() => serializer.deserialize(invalidState)).toThrow(message);
+  });
+});
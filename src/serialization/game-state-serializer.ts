@@ -0,0 +1,174 @@
+import { GameStatus } from "../common/game-status";
+import { type IGamePieceFactory } from "../factories/game-piece-factory";
+import {
+  GameBoard,
+  type IGameBoard,
+  type SerializedGameBoard,
+} from "../models/game-board";
+import { type IRandomSource } from "../random/random-source";
+
+/**
+ * The complete state of a game, as needed to resume it later.
+ */
+export type GameState = {
+  board: IGameBoard;
+  score: number;
+  status: GameStatus;
+  moveCount: number;
+  /**
+   * The state of the random source that spawns new pieces,
+   * or `null` if the source cannot be restored.
+   */
+  randomState: number | null;
+};
+
+/**
+ * The JSON representation of a `GameState`.
+ * The `version` is bumped whenever the format changes incompatibly.
+ */
+export type SerializedGameState = {
+  version: number;
+  board: SerializedGameBoard;
+  score: number;
+  status: keyof typeof GameStatus;
+  moveCount: number;
+  randomState: number | null;
+};
+
+/**
+ * Thrown when serialized game state is malformed or uses an unsupported version.
+ */
+export class GameStateSerializationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GameStateSerializationError";
+  }
+}
+
+/**
+ * Converts the state of a game to and from a versioned JSON string.
+ */
+export interface IGameStateSerializer {
+  /**
+   * Converts the provided game state into a JSON string.
+   *
+   * @param {GameState} state - The game state to serialize.
+   * @returns {string} The serialized game state.
+   */
+  serialize(state: GameState): string;
+
+  /**
+   * Restores the game state from a JSON string.
+   *
+   * @param {string} serializedState - A string produced by `serialize`.
+   * @returns {GameState} The restored game state.
+   * @throws {GameStateSerializationError} If the string is not a valid save
+   * or was written by an unsupported version of the format.
+   */
+  deserialize(serializedState: string): GameState;
+}
+
+export class GameStateSerializer implements IGameStateSerializer {
+  static readonly version = 3;
+
+  #pieceFactory: IGamePieceFactory;
+
+  #randomSource: IRandomSource;
+
+  /**
+   * @param {IGamePieceFactory} pieceFactory - Creates the restored pieces.
+   * @param {IRandomSource} randomSource - Used by the restored board.
+   */
+  constructor(pieceFactory: IGamePieceFactory, randomSource: IRandomSource) {
+    this.#pieceFactory = pieceFactory;
+    this.#randomSource = randomSource;
+  }
+
+  serialize(state: GameState): string {
+    const serializedState: SerializedGameState = {
+      version: GameStateSerializer.version,
+      board: state.board.serialize(),
+      score: state.score,
+      status: GameStatus[state.status] as keyof typeof GameStatus,
+      moveCount: state.moveCount,
+      randomState: state.randomState,
+    };
+
+    return JSON.stringify(serializedState);
+  }
+
+  deserialize(serializedState: string): GameState {
+    let parsedState: Partial<SerializedGameState>;
+
+    try {
+      parsedState = JSON.parse(serializedState);
+    } catch {
+      throw new GameStateSerializationError("Saved game is not valid JSON.");
+    }
+
+    if (typeof parsedState !== "object" || parsedState === null) {
+      throw new GameStateSerializationError("Saved game is not an object.");
+    }
+
+    if (parsedState.version !== GameStateSerializer.version) {
+      throw new GameStateSerializationError(
+        `Saved game uses format version ${parsedState.version}, ` +
+          `but only version ${GameStateSerializer.version} is supported.`
+      );
+    }
+
+    const { board, score, status, moveCount, randomState } = parsedState;
+
+    if (typeof score !== "number" || !Number.isInteger(score) || score < 0) {
+      throw new GameStateSerializationError(`Invalid score: ${score}.`);
+    }
+
+    if (
+      typeof moveCount !== "number" ||
+      !Number.isInteger(moveCount) ||
+      moveCount < 0
+    ) {
+      throw new GameStateSerializationError(
+        `Invalid move count: ${moveCount}.`
+      );
+    }
+
+    if (typeof status !== "string" || typeof GameStatus[status] !== "number") {
+      throw new GameStateSerializationError(`Invalid game status: ${status}.`);
+    }
+
+    if (
+      randomState !== null &&
+      (typeof randomState !== "number" ||
+        !Number.isInteger(randomState) ||
+        randomState < 0 ||
+        randomState > 0xffffffff)
+    ) {
+      throw new GameStateSerializationError(
+        `Invalid random state: ${randomState}.`
+      );
+    }
+
+    if (typeof board !== "object" || board === null) {
+      throw new GameStateSerializationError("Saved game has no board.");
+    }
+
+    try {
+      return {
+        board: GameBoard.deserialize(
+          board,
+          this.#pieceFactory,
+          this.#randomSource
+        ),
+        score,
+        status: GameStatus[status],
+        moveCount,
+        randomState,
+      };
+    } catch (error) {
+      throw new GameStateSerializationError(
+        `Invalid board: ${(error as Error).message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { GameAgent } from "../ai/game-agent";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { SeededRandomSource } from "../random/seeded-random-source";
+import {
+  formatGameResultsAsCsv,
+  simulateGame,
+  summarizeGames,
+} from "./game-simulation";
+
+const pieceFactory = new DefaultGamePieceFactory(new SeededRandomSource(1));
+const agent = new GameAgent(pieceFactory, { searchDepth: 1, targetValue: 128 });
+const options = { boardSize: 4, gameWinValue: 128, startingPieceCount: 2 };
+
+describe("simulateGame", () => {
+  it("plays the same game for the same seed", () => {
+    const result = simulateGame(agent, 7, options);
+    const repeatedResult = simulateGame(agent, 7, options);
+
+    expect({ ...repeatedResult, thinkingTime: 0 }).toEqual({
+      ...result,
+      thinkingTime: 0,
+    });
+  });
+
+  it("plays until the game is won or lost", () => {
+    const result = simulateGame(agent, 3, options);
+
+    expect(result.won).toBe(result.maxValue >= options.gameWinValue);
+    expect(result.moveCount).toBeGreaterThan(0);
+  });
+});
+
+describe("summarizeGames", () => {
+  it("averages the scores and counts the wins", () => {
+    const result = { seed: 1, maxValue: 0, moveCount: 0, thinkingTime: 0 };
+
+    expect(
+      summarizeGames([
+        { ...result, score: 100, won: true },
+        { ...result, score: 300, won: false },
+      ])
+    ).toEqual({
+      games: 2,
+      winRate: 0.5,
+      averageScore: 200,
+      averageMoveCount: 0,
+      averageMoveTime: 0,
+      maxValueDistribution: { 0: 2 },
+    });
+  });
+
+  it("averages the moves and counts the games by highest piece", () => {
+    const result = { seed: 1, score: 0, won: false };
+
+    expect(
+      summarizeGames([
+        { ...result, maxValue: 512, moveCount: 100, thinkingTime: 50 },
+        { ...result, maxValue: 1024, moveCount: 300, thinkingTime: 350 },
+        { ...result, maxValue: 512, moveCount: 200, thinkingTime: 200 },
+      ])
+    ).toMatchObject({
+      averageMoveCount: 200,
+      averageMoveTime: 1,
+      maxValueDistribution: { 512: 2, 1024: 1 },
+    });
+  });
+});
+
+describe("formatGameResultsAsCsv", () => {
+  it("writes a header and one row per game", () => {
+    expect(
+      formatGameResultsAsCsv([
+        {
+          seed: 1,
+          score: 1200,
+          maxValue: 128,
+          moveCount: 150,
+          won: false,
+          thinkingTime: 12.5,
+        },
+      ])
+    ).toBe(
+      "seed,score,maxValue,moveCount,won,thinkingTime\n1,1200,128,150,false,12.5"
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import { type IGameAgent } from "../ai/game-agent";
+import { GameStatus } from "../common/game-status";
+import { GameEngine } from "../engine/game-engine";
+import { DefaultGamePieceFactory } from "../factories/game-piece-factory";
+import { GameBoard, type GameBoardShape } from "../models/game-board";
+import { type IMergeRule } from "../models/merge-rule";
+import { type SpawnPolicy } from "../models/spawn-policy";
+import { SeededRandomSource } from "../random/seeded-random-source";
+
+export type GameSimulationOptions = {
+  /** The size of a square board, or the shape of any board. */
+  boardSize: number | GameBoardShape;
+  gameWinValue: number;
+  startingPieceCount: number;
+  /** Defaults to the classic rule. */
+  mergeRule?: IMergeRule;
+  /** Defaults to `defaultSpawnPolicy`. */
+  spawnPolicy?: SpawnPolicy;
+};
+
+/**
+ * The outcome of a single game played by an agent.
+ */
+export type GameSimulationResult = {
+  seed: number;
+  score: number;
+  /** The value of the highest piece on the final board. */
+  maxValue: number;
+  moveCount: number;
+  won: boolean;
+  /** The milliseconds the agent spent choosing its moves. */
+  thinkingTime: number;
+};
+
+/**
+ * Aggregates the outcomes of several games.
+ */
+export type GameSimulationSummary = {
+  games: number;
+  /** The share of won games, between `0` and `1`. */
+  winRate: number;
+  averageScore: number;
+  averageMoveCount: number;
+  /** The average milliseconds the agent spent choosing a move. */
+  averageMoveTime: number;
+  /** The number of games by the value of the highest piece they ended with. */
+  maxValueDistribution: Record<number, number>;
+};
+
+/**
+ * Lets an agent play a game from start to end without rendering it.
+ * Games with the same seed spawn the same pieces for the same moves,
+ * so that agents can be compared on equal terms.
+ *
+ * @param {IGameAgent} agent - The agent choosing every move.
+ * @param {number} seed - The seed of the pieces spawned during the game.
+ * @param {GameSimulationOptions} options - The rules of the game.
+ * @returns {GameSimulationResult} The outcome of the game.
+ */
+export function simulateGame(
+  agent: IGameAgent,
+  seed: number,
+  options: GameSimulationOptions
+): GameSimulationResult {
+  const randomSource = new SeededRandomSource(seed);
+  const engine = new GameEngine(
+    new GameBoard(options.boardSize, randomSource, options.mergeRule),
+    new DefaultGamePieceFactory(randomSource, options.spawnPolicy),
+    randomSource,
+    {
+      gameWinValue: options.gameWinValue,
+      startingPieceCount: options.startingPieceCount,
+      historyLimit: 0,
+    }
+  );
+
+  let thinkingTime = 0;
+
+  engine.start();
+
+  while (engine.getStatus() === GameStatus.InProgress) {
+    const startTime = performance.now();
+    const direction = agent.recommendNextMove(engine.getBoard());
+    thinkingTime += performance.now() - startTime;
+
+    if (direction === null) break;
+
+    engine.move(direction);
+  }
+
+  return {
+    seed,
+    score: engine.getScore(),
+    maxValue: engine.getBoard().findMaxValueGamePiece()?.value ?? 0,
+    moveCount: engine.getMoveCount(),
+    won: engine.getStatus() === GameStatus.Won,
+    thinkingTime,
+  };
+}
+
+/**
+ * @param {GameSimulationResult[]} results - The outcomes of the games.
+ * @returns {GameSimulationSummary} The aggregated outcomes.
+ */
+export function summarizeGames(
+  results: GameSimulationResult[]
+): GameSimulationSummary {
+  const games = results.length;
+  const sum = (getValue: (result: GameSimulationResult) => number) =>
+    results.reduce((total, result) => total + getValue(result), 0);
+  const moveCount = sum(({ moveCount }) => moveCount);
+  const maxValueDistribution: Record<number, number> = {};
+
+  for (const { maxValue } of results) {
+    maxValueDistribution[maxValue] = (maxValueDistribution[maxValue] ?? 0) + 1;
+  }
+
+  return {
+    games,
+    winRate: results.filter(({ won }) => won).length / games,
+    averageScore: sum(({ score }) => score) / games,
+    averageMoveCount: moveCount / games,
+    averageMoveTime:
+      moveCount === 0 ? 0 : sum(({ thinkingTime }) => thinkingTime) / moveCount,
+    maxValueDistribution,
+  };
+}
+
+/**
+ * @param {GameSimulationResult[]} results - The outcomes of the games.
+ * @returns {string} The outcomes as CSV, with a header row and one row per game.
+ */
+export function formatGameResultsAsCsv(
+  results: GameSimulationResult[]
+): string {
+  const columns = [
+    "seed",
+    "score",
+    "maxValue",
+    "moveCount",
+    "won",
+    "thinkingTime",
+  ] as const;
+  const rows = results.map((result) =>
+    columns.map((column) => result[column]).join(",")
+  );
+
+  return [columns.join(","), ...rows].join("\n");
+}
@@ -0,0 +1,131 @@
+import {
+  GameAgent,
+  type GameAgentConfig,
+  type HeuristicWeights,
+} from "../ai/game-agent";
+import { type IGamePieceFactory } from "../factories/game-piece-factory";
+import { type IRandomSource } from "../random/random-source";
+import {
+  type GameSimulationOptions,
+  type GameSimulationSummary,
+  simulateGame,
+  summarizeGames,
+} from "./game-simulation";
+
+export type WeightTuningObjective = "averageScore" | "winRate";
+
+export type WeightTuningOptions = {
+  /** The weights to start the search from. */
+  initialWeights: HeuristicWeights;
+  iterations: number;
+  /** The seeds of the games every candidate is evaluated on. */
+  seeds: number[];
+  objective: WeightTuningObjective;
+  /**
+   * The standard deviation of the log-normal factor every weight is
+   * multiplied with to form a candidate.
+   */
+  stepSize: number;
+  /** The agent settings other than the weights. */
+  agentConfig: Omit<GameAgentConfig, "weights">;
+  game: GameSimulationOptions;
+};
+
+/**
+ * The evaluation of a set of weights.
+ */
+export type WeightTuningCandidate = {
+  weights: HeuristicWeights;
+  summary: GameSimulationSummary;
+};
+
+/**
+ * Searches for the heuristic weights that maximize the objective with a
+ * (1+1) evolution strategy: every iteration randomly perturbs the best
+ * weights so far, and keeps the perturbed ones if they do at least as well
+ * on the same games. Ties on the win rate are broken by the average score.
+ *
+ * @param {WeightTuningOptions} options - The search settings.
+ * @param {IGamePieceFactory} pieceFactory - Used by the agents for boards a `Bitboard` cannot hold.
+ * @param {IRandomSource} randomSource - Drives the perturbations.
+ * @param {(iteration: number, candidate: WeightTuningCandidate, best: WeightTuningCandidate) => void} [onIteration] -
+ * Optionally called after every evaluated candidate. Iteration `0` is the initial weights.
+ * @returns {WeightTuningCandidate} The best weights found.
+ */
+export function tuneWeights(
+  options: WeightTuningOptions,
+  pieceFactory: IGamePieceFactory,
+  randomSource: IRandomSource,
+  onIteration?: (
+    iteration: number,
+    candidate: WeightTuningCandidate,
+    best: WeightTuningCandidate
+  ) => void
+): WeightTuningCandidate {
+  const evaluate = (weights: HeuristicWeights): WeightTuningCandidate => {
+    const agent = new GameAgent(pieceFactory, {
+      ...options.agentConfig,
+      weights,
+    });
+
+    return {
+      weights,
+      summary: summarizeGames(
+        options.seeds.map((seed) => simulateGame(agent, seed, options.game))
+      ),
+    };
+  };
+
+  let best = evaluate(options.initialWeights);
+  onIteration?.(0, best, best);
+
+  for (let iteration = 1; iteration <= options.iterations; iteration += 1) {
+    const candidate = evaluate(
+      perturbWeights(best.weights, options.stepSize, randomSource)
+    );
+
+    if (compareCandidates(candidate, best, options.objective) >= 0) {
+      best = candidate;
+    }
+
+    onIteration?.(iteration, candidate, best);
+  }
+
+  return best;
+}
+
+function perturbWeights(
+  weights: HeuristicWeights,
+  stepSize: number,
+  randomSource: IRandomSource
+): HeuristicWeights {
+  const perturbed = { ...weights };
+
+  for (const feature of Object.keys(perturbed) as (keyof HeuristicWeights)[]) {
+    perturbed[feature] *= Math.exp(stepSize * nextGaussian(randomSource));
+  }
+
+  return perturbed;
+}
+
+/**
+ * @returns {number} A standard normal sample, using the Box-Muller transform.
+ */
+function nextGaussian(randomSource: IRandomSource): number {
+  const u = 1 - randomSource.next();
+  const v = randomSource.next();
+
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function compareCandidates(
+  a: WeightTuningCandidate,
+  b: WeightTuningCandidate,
+  objective: WeightTuningObjective
+): number {
+  if (objective === "winRate" && a.summary.winRate !== b.summary.winRate) {
+    return a.summary.winRate - b.summary.winRate;
+  }
+
+  return a.summary.averageScore - b.summary.averageScore;
+}
@@ -0,0 +1,39 @@
+/**
+ * Persists the highest score reached across games.
+ */
+export interface IBestScoreStorage {
+  /**
+   * Retrieves the stored best score.
+   * @returns {number} The best score, or `0` if none has been stored yet.
+   */
+  getBestScore(): number;
+
+  /**
+   * Stores a new best score.
+   * @param {number} score - The score to store.
+   */
+  saveBestScore(score: number): void;
+}
+
+export class LocalStorageBestScoreStorage implements IBestScoreStorage {
+  #storageKey: string;
+
+  /**
+   * @param {string} storageKey - The `localStorage` key the score is kept under.
+   */
+  constructor(storageKey: string) {
+    this.#storageKey = storageKey;
+  }
+
+  getBestScore(): number {
+    const storedValue = parseInt(
+      window.localStorage.getItem(this.#storageKey) ?? ""
+    );
+
+    return Number.isNaN(storedValue) ? 0 : storedValue;
+  }
+
+  saveBestScore(score: number) {
+    window.localStorage.setItem(this.#storageKey, score.toString());
+  }
+}
@@ -0,0 +1,56 @@
+import { type ChallengeResults } from "../models/challenge-mode";
+
+/**
+ * Persists the best result reached in every challenge mode.
+ */
+export interface IChallengeResultsStorage {
+  /**
+   * Retrieves the stored results.
+   * @returns {ChallengeResults} The best results, without the modes that
+   * have none yet or whose stored result is invalid. Results stored under
+   * keys of modes that are no longer offered are kept but never shown.
+   */
+  getBestResults(): ChallengeResults;
+
+  /**
+   * Stores the provided results, replacing the previously stored ones.
+   * @param {ChallengeResults} results - The results to store.
+   */
+  saveBestResults(results: ChallengeResults): void;
+}
+
+export class LocalStorageChallengeResultsStorage implements IChallengeResultsStorage {
+  #storageKey: string;
+
+  /**
+   * @param {string} storageKey - The `localStorage` key the results are kept under.
+   */
+  constructor(storageKey: string) {
+    this.#storageKey = storageKey;
+  }
+
+  getBestResults(): ChallengeResults {
+    const storedValue = window.localStorage.getItem(this.#storageKey);
+    const results: ChallengeResults = {};
+
+    if (storedValue === null) return results;
+
+    try {
+      const storedResults: Record<string, unknown> = JSON.parse(storedValue);
+
+      for (const [key, result] of Object.entries(storedResults)) {
+        if (typeof result === "number" && Number.isInteger(result)) {
+          results[key] = result;
+        }
+      }
+
+      return results;
+    } catch {
+      return results;
+    }
+  }
+
+  saveBestResults(results: ChallengeResults) {
+    window.localStorage.setItem(this.#storageKey, JSON.stringify(results));
+  }
+}
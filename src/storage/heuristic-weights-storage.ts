@@ -0,0 +1,69 @@
+import {
+  defaultHeuristicWeights,
+  type HeuristicWeights,
+} from "../ai/game-agent";
+
+/**
+ * Persists the heuristic weights chosen in the heuristic weights panel.
+ */
+export interface IHeuristicWeightsStorage {
+  /**
+   * Retrieves the stored weights.
+   * @returns {HeuristicWeights|null} The weights, or `null` if none are stored
+   * or the stored ones are invalid.
+   */
+  getWeights(): HeuristicWeights | null;
+
+  /**
+   * Stores the provided weights.
+   * @param {HeuristicWeights} weights - The weights to store.
+   */
+  saveWeights(weights: HeuristicWeights): void;
+
+  /**
+   * Removes the stored weights, if any.
+   */
+  clearWeights(): void;
+}
+
+export class LocalStorageHeuristicWeightsStorage implements IHeuristicWeightsStorage {
+  #storageKey: string;
+
+  /**
+   * @param {string} storageKey - The `localStorage` key the weights are kept under.
+   */
+  constructor(storageKey: string) {
+    this.#storageKey = storageKey;
+  }
+
+  getWeights(): HeuristicWeights | null {
+    const storedValue = window.localStorage.getItem(this.#storageKey);
+
+    if (storedValue === null) return null;
+
+    try {
+      const storedWeights = JSON.parse(storedValue);
+      const weights = { ...defaultHeuristicWeights };
+
+      for (const feature of Object.keys(
+        weights
+      ) as (keyof HeuristicWeights)[]) {
+        if (!Number.isFinite(storedWeights[feature])) return null;
+
+        weights[feature] = storedWeights[feature];
+      }
+
+      return weights;
+    } catch {
+      return null;
+    }
+  }
+
+  saveWeights(weights: HeuristicWeights) {
+    window.localStorage.setItem(this.#storageKey, JSON.stringify(weights));
+  }
+
+  clearWeights() {
+    window.localStorage.removeItem(this.#storageKey);
+  }
+}
@@ -0,0 +1,66 @@
+import { InputAction } from "../input/input-action";
+import { type KeyBindings } from "../input/key-bindings";
+
+/**
+ * Persists the key bindings chosen by the player.
+ */
+export interface IKeyBindingsStorage {
+  /**
+   * Retrieves the stored key bindings.
+   * @returns {KeyBindings|null} The bindings, or `null` if none are stored
+   * or the stored ones are invalid.
+   */
+  getKeyBindings(): KeyBindings | null;
+
+  /**
+   * Stores the provided key bindings.
+   * @param {KeyBindings} bindings - The bindings to store.
+   */
+  saveKeyBindings(bindings: KeyBindings): void;
+}
+
+export class LocalStorageKeyBindingsStorage implements IKeyBindingsStorage {
+  #storageKey: string;
+
+  /**
+   * @param {string} storageKey - The `localStorage` key the bindings are kept under.
+   */
+  constructor(storageKey: string) {
+    this.#storageKey = storageKey;
+  }
+
+  getKeyBindings(): KeyBindings | null {
+    const storedValue = window.localStorage.getItem(this.#storageKey);
+
+    if (storedValue === null) return null;
+
+    try {
+      // Actions are stored by name, so that reordering the enum
+      // doesn't change the meaning of stored bindings.
+      const actionNames: Record<string, string> = JSON.parse(storedValue);
+      const bindings: KeyBindings = {};
+
+      for (const [key, actionName] of Object.entries(actionNames)) {
+        const action = InputAction[actionName as keyof typeof InputAction];
+
+        if (typeof action !== "number") return null;
+
+        bindings[key] = action;
+      }
+
+      return bindings;
+    } catch {
+      return null;
+    }
+  }
+
+  saveKeyBindings(bindings: KeyBindings) {
+    const actionNames: Record<string, string> = {};
+
+    for (const [key, action] of Object.entries(bindings)) {
+      actionNames[key] = InputAction[action];
+    }
+
+    window.localStorage.setItem(this.#storageKey, JSON.stringify(actionNames));
+  }
+}
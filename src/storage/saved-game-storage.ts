@@ -0,0 +1,45 @@
+/**
+ * Persists the serialized state of the last game, so it can be resumed
+ * after the page is reloaded.
+ */
+export interface ISavedGameStorage {
+  /**
+   * Retrieves the stored game.
+   * @returns {string|null} The serialized game, or `null` if none is stored.
+   */
+  loadGame(): string | null;
+
+  /**
+   * Stores the provided game, replacing any previously stored one.
+   * @param {string} serializedGame - The serialized game to store.
+   */
+  saveGame(serializedGame: string): void;
+
+  /**
+   * Removes the stored game.
+   */
+  clearGame(): void;
+}
+
+export class LocalStorageSavedGameStorage implements ISavedGameStorage {
+  #storageKey: string;
+
+  /**
+   * @param {string} storageKey - The `localStorage` key the game is kept under.
+   */
+  constructor(storageKey: string) {
+    this.#storageKey = storageKey;
+  }
+
+  loadGame(): string | null {
+    return window.localStorage.getItem(this.#storageKey);
+  }
+
+  saveGame(serializedGame: string) {
+    window.localStorage.setItem(this.#storageKey, serializedGame);
+  }
+
+  clearGame() {
+    window.localStorage.removeItem(this.#storageKey);
+  }
+}
@@ -1,11 +1,40 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_GAME_BOARD_GRID_SIZE: string;
+  readonly VITE_GAME_BOARD_ROW_COUNT?: string;
+  readonly VITE_GAME_BOARD_COLUMN_COUNT?: string;
+  /** @deprecated Use `VITE_GAME_BOARD_ROW_COUNT` and `VITE_GAME_BOARD_COLUMN_COUNT`. */
+  readonly VITE_GAME_BOARD_GRID_SIZE?: string;
+  readonly VITE_GAME_BOARD_BLOCKED_CELLS?: string;
+  readonly VITE_MERGE_RULE?: string;
+  readonly VITE_SPAWN_VALUES?: string;
+  readonly VITE_SPAWN_PIECES_PER_MOVE?: string;
+  readonly VITE_SPAWN_MODE?: "random" | "evil";
   readonly VITE_GAME_BOARD_ID: string;
   readonly VITE_GAME_WIN_VALUE: string;
   readonly VITE_MESSAGE_BOARD_ID: string;
+  readonly VITE_SCORE_BOARD_ID: string;
+  readonly VITE_BEST_SCORE_STORAGE_KEY: string;
+  readonly VITE_SAVED_GAME_STORAGE_KEY: string;
+  readonly VITE_CHALLENGE_RESULTS_STORAGE_KEY: string;
+  readonly VITE_TIME_ATTACK_SECONDS?: string;
+  readonly VITE_LIMITED_MOVES_COUNT?: string;
+  readonly VITE_FEWEST_MOVES_TARGET_VALUE?: string;
   readonly VITE_GAME_AGENT_SEARCH_DEPTH: string;
+  readonly VITE_GAME_AGENT_TIME_BUDGET?: string;
+  readonly VITE_MONTE_CARLO_ROLLOUT_COUNT: string;
+  readonly VITE_MONTE_CARLO_ROLLOUT_LENGTH: string;
+  readonly VITE_N_TUPLE_WEIGHTS_URL: string;
+  readonly VITE_GAME_HISTORY_LIMIT?: string;
+  readonly VITE_RANDOM_SEED: string;
+  readonly VITE_SWIPE_MIN_DISTANCE?: string;
+  readonly VITE_SWIPE_ANGLE_TOLERANCE?: string;
+  readonly VITE_GAMEPAD_STICK_THRESHOLD?: string;
+  readonly VITE_KEY_BINDINGS_ID: string;
+  readonly VITE_KEY_BINDINGS_STORAGE_KEY: string;
+  readonly VITE_HEURISTIC_WEIGHTS_ID: string;
+  readonly VITE_HEURISTIC_WEIGHTS_STORAGE_KEY: string;
+  readonly VITE_AUTOPLAY_MOVES_PER_SECOND?: string;
 }
 
 interface ImportMeta {